@@ -1,5 +1,6 @@
 import { atom } from 'jotai';
-import { atomWithLazy } from 'jotai/utils';
+import { RESET } from 'jotai/utils';
+import { eagerAtomWithDefault, eagerAtomWithRefresh, eagerWrite } from 'jotai-eager';
 
 export interface User {
   id: number;
@@ -14,16 +15,22 @@ async function fetchUser(): Promise<User> {
   };
 }
 
-export const userAtom = atomWithLazy<Promise<User> | User>(fetchUser);
+const serverUserAtom = eagerAtomWithRefresh((get) => get.await(get.cache('user', fetchUser)));
+
+export const userAtom = eagerAtomWithDefault((get) => get(serverUserAtom));
 
 export const refetchUserAtom = atom(null, (_get, set) => {
-  set(userAtom, fetchUser());
+  set(serverUserAtom);
+  set(userAtom, RESET);
 });
 
-export const updateOptimisticallyAtom = atom(null, async (get, set) => {
-  const user = await get(userAtom);
-  set(userAtom, {
-    ...user,
-    name: user.name.slice(1) + user.name[0],
-  });
-});
+export const updateOptimisticallyAtom = atom(
+  null,
+  eagerWrite((get, set) => {
+    const user = get(userAtom);
+    set(userAtom, {
+      ...user,
+      name: user.name.slice(1) + user.name[0],
+    });
+  }),
+);
@@ -1,12 +1,26 @@
 import { atom } from 'jotai/vanilla';
 import type { Atom, WritableAtom, Getter, Setter } from 'jotai/vanilla';
-import { getPromiseMeta, setPromiseMeta } from './isPromise.ts';
+import {
+  type Settled,
+  aggregateError,
+  getPromiseMeta,
+  handledRejectedPromise,
+  trackPromise,
+} from './isPromise.ts';
+import { type Loadable, loadable } from './loadable.ts';
+import { replaceEqualDeep } from './replaceEqualDeep.ts';
 
 export type AwaitedAll<T extends readonly unknown[]> = {
   [K in keyof T]: Awaited<T[K] extends Atom<infer Value> ? Value : T[K]>;
 };
 
-interface EagerGetter {
+export type { Settled } from './isPromise.ts';
+
+export type SettledAll<T extends readonly unknown[]> = {
+  [K in keyof T]: Settled<Awaited<T[K] extends Atom<infer Value> ? Value : T[K]>>;
+};
+
+export interface EagerGetter {
   /**
    * Retrieves the atom's fulfilled value.
    * If the value is not yet available, it interrupts the execution
@@ -31,17 +45,105 @@ interface EagerGetter {
    * of the eager atom until they're available.
    */
   all<T extends readonly Atom<unknown>[]>(atoms: T): AwaitedAll<T>;
+  /**
+   * Retrieves the outcome of all passed in Promises, whether they fulfilled or rejected.
+   * If any of them is not yet settled, it interrupts the execution
+   * of the eager atom until all of them are.
+   */
+  awaitAllSettled<T extends readonly unknown[] | []>(args: T): SettledAll<T>;
+  /**
+   * Retrieves the outcome of all passed in atoms, whether they fulfilled or rejected.
+   * If any of them is not yet settled, it interrupts the execution
+   * of the eager atom until all of them are.
+   */
+  allSettled<T extends readonly Atom<unknown>[] | []>(atoms: T): SettledAll<T>;
+  /**
+   * Retrieves the outcome of the first passed in Promise to settle, like `Promise.race`.
+   * If none of them are settled yet, it interrupts the execution
+   * of the eager atom until one of them is.
+   */
+  awaitRace<T extends readonly unknown[] | []>(args: T): AwaitedAll<T>[number];
+  /**
+   * Retrieves the outcome of the first passed in atom to settle, like `Promise.race`.
+   * If none of them are settled yet, it interrupts the execution
+   * of the eager atom until one of them is.
+   */
+  race<T extends readonly Atom<unknown>[] | []>(atoms: T): AwaitedAll<T>[number];
+  /**
+   * Retrieves the value of the first passed in Promise to fulfill, like `Promise.any`.
+   * If none of them are fulfilled yet, it interrupts the execution
+   * of the eager atom until one of them is, or until all of them reject.
+   */
+  awaitAny<T extends readonly unknown[] | []>(args: T): AwaitedAll<T>[number];
+  /**
+   * Retrieves the value of the first passed in atom to fulfill, like `Promise.any`.
+   * If none of them are fulfilled yet, it interrupts the execution
+   * of the eager atom until one of them is, or until all of them reject.
+   */
+  any<T extends readonly Atom<unknown>[] | []>(atoms: T): AwaitedAll<T>[number];
+  /**
+   * Retrieves the atom's current state, without interrupting the execution
+   * of the eager atom if the value is not yet available. The eager atom is
+   * recomputed once the state changes.
+   */
+  peek<Value>(atom: Atom<Value>): Loadable<Value>;
+  /**
+   * Retrieves the atom's fulfilled value, or `fallback` if the value is not yet
+   * available, without interrupting the execution of the eager atom. The eager atom
+   * is recomputed once the value becomes available.
+   */
+  orElse<Value, Fallback>(atom: Atom<Value>, fallback: Fallback): Awaited<Value> | Fallback;
+  /**
+   * Returns the result of `factory`, called once per `key` until the eager atom's
+   * dependencies change. Allows Promises created inside the read function to be
+   * passed into `get.await()`, as they stay the same across interrupted executions.
+   */
+  cache<T>(key: unknown, factory: () => T): T;
+  /**
+   * Returns the result of `fn`, which is only called again if any of the `deps` changed
+   * (compared with `Object.is`). The result is kept across interrupted executions and
+   * recomputations of the eager atom, which makes it a good fit for expensive steps.
+   * Like React hooks, it has to be called in the same order on every execution.
+   */
+  memo<T>(fn: () => T, deps: readonly unknown[]): T;
 }
 
-type Read<Value> = (get: EagerGetter) => Value;
+export type SetAtom<Args extends unknown[], Result> = <A extends Args>(...args: A) => Result;
 
-type Write<Args extends unknown[], Result> = (get: Getter, set: Setter, ...args: Args) => Result;
+export interface EagerReadOptions<SetSelf = never> {
+  /**
+   * Aborted when the dependencies of the eager atom change, which
+   * makes the ongoing computation stale.
+   */
+  readonly signal: AbortSignal;
+  /**
+   * Calls the atom's own `write` function. Cannot be called synchronously.
+   */
+  readonly setSelf: SetSelf;
+}
+
+export type Read<Value, SetSelf = never> = (
+  get: EagerGetter,
+  options: EagerReadOptions<SetSelf>,
+) => Value;
+
+export type Write<Args extends unknown[], Result> = (
+  get: Getter,
+  set: Setter,
+  ...args: Args
+) => Result;
+
+type EagerWrite<Args extends unknown[], Result> = (
+  get: EagerGetter,
+  set: Setter,
+  ...args: Args
+) => Result;
 
 const NotYet = Symbol(
   '(jotai-eager) Not all dependencies were fulfilled. Are you a dev? Call `isEagerError(e)` to detect this thrown value and rethrow it, as its handled by the library.',
 );
 
-interface EagerError {
+export interface EagerError {
   [NotYet]: Promise<unknown>;
 }
 
@@ -64,51 +166,308 @@ function unwrapPromise<T>(promise: T): Awaited<T> {
   return meta.value as Awaited<T>; // Fulfilled
 }
 
+/**
+ * @returns A promise that fulfills once `promise` settles (never rejects), after
+ * recording its outcome in the promise meta cache.
+ */
+function trackSettled(promise: PromiseLike<unknown>): Promise<void> {
+  return Promise.resolve(trackPromise(promise)).then(
+    () => {},
+    () => {},
+  );
+}
+
+function pendingAmong(values: readonly unknown[]): PromiseLike<unknown>[] {
+  return values.filter((v) => getPromiseMeta(v)?.status === 'pending') as PromiseLike<unknown>[];
+}
+
+function unwrapAll(values: readonly unknown[]): unknown[] {
+  for (const v of values) {
+    const meta = getPromiseMeta(v);
+    if (meta?.status === 'rejected') {
+      // Failing fast, just like `Promise.all`
+      throw meta.reason;
+    }
+  }
+
+  const pending = pendingAmong(values);
+
+  if (pending.length > 0) {
+    // Waiting for every pending promise at once, instead of one by one, so
+    // that the computation is not retried after each of them is fulfilled.
+    throw {
+      [NotYet]: Promise.all(pending.map(trackPromise)),
+    } satisfies EagerError;
+  }
+
+  return values.map((v) => unwrapPromise(v));
+}
+
+function unwrapAllSettled(values: readonly unknown[]): Settled<unknown>[] {
+  const pending = pendingAmong(values);
+
+  if (pending.length > 0) {
+    // Waiting for every pending promise, no matter if it fulfills or rejects.
+    throw { [NotYet]: Promise.all(pending.map(trackSettled)) } satisfies EagerError;
+  }
+
+  return values.map((v) => {
+    const meta = getPromiseMeta(v);
+    if (!meta) {
+      // Not a promise
+      return { status: 'fulfilled', value: v };
+    }
+    if (meta.status === 'rejected') {
+      return { status: 'rejected', reason: meta.reason };
+    }
+    return { status: 'fulfilled', value: (meta as { value: unknown }).value };
+  });
+}
+
+function unwrapRace(values: readonly unknown[]): unknown {
+  for (const v of values) {
+    const meta = getPromiseMeta(v);
+    if (meta?.status !== 'pending') {
+      // The first settled value wins, the same way `Promise.race` would
+      // pick the first of the already settled promises.
+      return unwrapPromise(v);
+    }
+  }
+
+  // Waiting for the first pending promise to settle.
+  throw {
+    [NotYet]: Promise.race(values.map((v) => trackSettled(v as PromiseLike<unknown>))),
+  } satisfies EagerError;
+}
+
+function unwrapAny(values: readonly unknown[]): unknown {
+  const reasons: unknown[] = [];
+
+  for (const v of values) {
+    const meta = getPromiseMeta(v);
+    if (!meta) {
+      // Not a promise
+      return v;
+    }
+    if (meta.status === 'fulfilled') {
+      return meta.value;
+    }
+    if (meta.status === 'rejected') {
+      reasons.push(meta.reason);
+    }
+  }
+
+  const pending = pendingAmong(values);
+  if (pending.length > 0) {
+    // Waiting for any pending promise to settle, then checking again.
+    throw { [NotYet]: Promise.race(pending.map(trackSettled)) } satisfies EagerError;
+  }
+
+  throw aggregateError(reasons, 'All promises were rejected');
+}
+
+function getSuspension(e: unknown): Promise<unknown> | undefined {
+  return (e as EagerError | { [NotYet]?: undefined })?.[NotYet];
+}
+
 function resolveSuspension<T>(
   compute: () => T,
-  getLatest: () => T | Promise<T>,
-  signal: AbortSignal,
+  getLatest?: () => T | Promise<T>,
+  signal?: AbortSignal,
 ): T | Promise<T> {
+  let suspended: Promise<unknown> | undefined;
   try {
     // If the computation is strictly synchronous, the function will
     // be able to return a non-promise result immediately.
     return compute();
   } catch (e) {
-    const suspended = (e as EagerError | { [NotYet]?: undefined })[NotYet];
-    if (suspended) {
-      // There's a pending promise
-      return new Promise<T>((resolve, reject) => {
-        signal.addEventListener(
-          'abort',
-          () => {
-            // If the dependencies changed while the promise was pending,
-            // then we make it resolve with the result of the latest
-            // computation.
-            resolve(getLatest());
-          },
-          { once: true },
-        );
-
-        suspended.then(
-          (value) => {
-            setPromiseMeta(suspended, { status: 'fulfilled', value });
-            if (signal.aborted) {
-              // Already resolved by the 'abort' event handler
-              return;
-            }
-            // ... otherwise we try to compute the atom again.
-            resolve(resolveSuspension(compute, getLatest, signal));
-          },
-          (reason) => {
-            setPromiseMeta(suspended, { status: 'rejected', reason });
-            reject(reason);
-          },
-        );
-      });
+    suspended = getSuspension(e);
+    if (!suspended) {
+      // Rejecting other errors
+      return Promise.reject(e);
     }
-    // Rejecting other errors
-    return Promise.reject(e);
   }
+
+  return resumeAfter(suspended, compute, getLatest, signal);
+}
+
+/**
+ * @returns A promise of the result of `compute`, retried every time the promise
+ * it suspended on settles.
+ */
+function resumeAfter<T>(
+  suspended: Promise<unknown>,
+  compute: () => T,
+  getLatest?: () => T | Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  // There's a pending promise
+  return new Promise<T>((resolve, reject) => {
+    signal?.addEventListener(
+      'abort',
+      () => {
+        // If the dependencies changed while the promise was pending,
+        // then we make it resolve with the result of the latest
+        // computation.
+        resolve((getLatest as () => T | Promise<T>)());
+      },
+      { once: true },
+    );
+
+    const retry = () => {
+      if (signal?.aborted) {
+        // Already resolved by the 'abort' event handler
+        return;
+      }
+
+      try {
+        resolve(compute());
+      } catch (e) {
+        const nextSuspended = getSuspension(e);
+        if (nextSuspended) {
+          waitFor(nextSuspended);
+        } else {
+          reject(e);
+        }
+      }
+    };
+
+    const waitFor = (promise: Promise<unknown>) => {
+      // Once settled, we try to compute the atom again, even on rejection,
+      // as the read function might handle the rejection on its own.
+      trackPromise(promise).then(retry, retry);
+    };
+
+    waitFor(suspended);
+  });
+}
+
+interface MemoSlot {
+  deps: readonly unknown[];
+  value: unknown;
+}
+
+interface Memoizer {
+  memo<T>(fn: () => T, deps: readonly unknown[]): T;
+  /**
+   * Should be called before every execution of a read function that starts from the beginning.
+   */
+  rewind(): void;
+}
+
+function createMemoizer(slots: MemoSlot[]): Memoizer {
+  let index = 0;
+
+  return {
+    memo<T>(fn: () => T, deps: readonly unknown[]): T {
+      const slotIndex = index++;
+      const slot = slots[slotIndex];
+      if (
+        slot &&
+        slot.deps.length === deps.length &&
+        slot.deps.every((dep, idx) => Object.is(dep, deps[idx]))
+      ) {
+        return slot.value as T;
+      }
+
+      const value = fn();
+      slots[slotIndex] = { deps, value };
+      return value;
+    },
+    rewind() {
+      index = 0;
+    },
+  };
+}
+
+/**
+ * Read functions marked with this symbol resume where they left off after an
+ * interruption, instead of starting from the beginning.
+ */
+export const Resumable = Symbol('(jotai-eager) Resumable read function');
+
+function createEagerGetter(get: Getter, memoizer: Memoizer): EagerGetter {
+  const eagerGet = (<Value>(atomToGet: Atom<Value>): Awaited<Value> =>
+    unwrapPromise(get(atomToGet))) as EagerGetter;
+
+  eagerGet.all = <T extends readonly Atom<unknown>[]>(atoms: T) =>
+    // Jump-starting every asynchronous atom.
+    unwrapAll(atoms.map((a) => get(a))) as AwaitedAll<T>;
+
+  eagerGet.await = <T>(promiseOrValue: T) => unwrapPromise(promiseOrValue);
+  eagerGet.awaitAll = <T extends readonly unknown[]>(values: T) =>
+    unwrapAll(values) as AwaitedAll<T>;
+
+  // Jump-starting every asynchronous atom, treating sync throws as rejections.
+  const getSettling = (atoms: readonly Atom<unknown>[]) =>
+    atoms.map((a) => {
+      try {
+        return get(a);
+      } catch (reason) {
+        return handledRejectedPromise(reason);
+      }
+    });
+
+  eagerGet.allSettled = <T extends readonly Atom<unknown>[]>(atoms: T) =>
+    unwrapAllSettled(getSettling(atoms)) as SettledAll<T>;
+  eagerGet.awaitAllSettled = <T extends readonly unknown[]>(values: T) =>
+    unwrapAllSettled(values) as SettledAll<T>;
+
+  eagerGet.race = <T extends readonly Atom<unknown>[]>(atoms: T) =>
+    unwrapRace(getSettling(atoms)) as AwaitedAll<T>[number];
+  eagerGet.awaitRace = <T extends readonly unknown[]>(values: T) =>
+    unwrapRace(values) as AwaitedAll<T>[number];
+
+  eagerGet.any = <T extends readonly Atom<unknown>[]>(atoms: T) =>
+    unwrapAny(getSettling(atoms)) as AwaitedAll<T>[number];
+  eagerGet.awaitAny = <T extends readonly unknown[]>(values: T) =>
+    unwrapAny(values) as AwaitedAll<T>[number];
+
+  // Shared by every execution using this getter, which for eager atoms
+  // lasts until the dependencies change.
+  const cache = new Map<unknown, unknown>();
+  eagerGet.cache = <T>(key: unknown, factory: () => T) => {
+    if (!cache.has(key)) {
+      cache.set(key, factory());
+    }
+    return cache.get(key) as T;
+  };
+
+  eagerGet.memo = memoizer.memo;
+
+  // Going through `loadable` to get notified when a pending value settles.
+  eagerGet.peek = <Value>(atomToGet: Atom<Value>) => get(loadable(atomToGet));
+  eagerGet.orElse = <Value, Fallback>(atomToGet: Atom<Value>, fallback: Fallback) => {
+    const state = get(loadable(atomToGet));
+    if (state.state === 'hasError') {
+      throw state.error;
+    }
+    return state.state === 'hasData' ? state.data : fallback;
+  };
+
+  return eagerGet;
+}
+
+export interface EagerAtomOptions<Value = unknown> {
+  /**
+   * Whether to jump-start every atom that was read by the previous computation, before
+   * running the read function again. Avoids request waterfalls for stable sets of dependencies.
+   * Should be turned off if reading some of the dependencies has side-effects.
+   * @default true
+   */
+  prefetch?: boolean;
+  /**
+   * Decides whether a newly computed value is the same as the previous one, in which
+   * case the previous value is kept. Helps avoid rerenders caused by new references.
+   */
+  equals?: (prev: Value, next: Value) => boolean;
+  /**
+   * Whether to keep the references of every subtree (plain objects and arrays) of the
+   * newly computed value that is deeply equal to the previous one, similarly to how
+   * query libraries do it.
+   * @default false
+   */
+  structuralSharing?: boolean;
 }
 
 type AsyncReadFunctionError =
@@ -121,11 +480,14 @@ type AsyncReadFunctionError =
  * - eager computation of the atom's value in case all of its dependencies are fulfilled
  *   (which is not the case for vanilla async atoms).
  * - interrupting computation if a dependency is not yet fulfilled.
- * The `get` parameter provides methods like `all()` to await multiple atoms simultaneously
- * and `await()` for non-atom promises.
+ * The `get` parameter provides methods like `all()` to await multiple atoms simultaneously,
+ * `allSettled()` to await them without failing on the first rejection, `race()` and `any()` to
+ * take whichever one settles or fulfills first, `peek()` and `orElse()` to read optional
+ * dependencies without suspending, `memo()` for expensive steps, and `await()` for non-atom promises.
  *
- * @param read A synchronous function that computes the atom's value using the eager getter, which can await dependencies directly.
- * @param write An optional function to handle writes to the atom, receiving the standard getter, setter, and arguments.
+ * @param read A synchronous function that computes the atom's value using the eager getter, which can await dependencies directly. Also receives the computation's abort `signal` and `setSelf`, like vanilla read functions.
+ * @param write An optional function to handle writes to the atom, receiving the standard getter, setter, and arguments. Wrap it with `eagerWrite` to receive the eager getter instead.
+ * @param options Optional settings, see `EagerAtomOptions`.
  * @returns An atom that resolves to the computed value or a promise of the result if dependencies are pending. For writable atoms, includes write functionality.
  *
  * @example
@@ -147,43 +509,102 @@ export function eagerAtom<Value, Args extends unknown[], Result>(
   // NOTE: Wrapping in [] to avoid spreading the operation over union elements
   ...args: [Value] extends [PromiseLike<unknown>]
     ? [AsyncReadFunctionError]
-    : [read: Read<Value>, write: Write<Args, Result>]
+    : [
+        read: Read<Value, SetAtom<Args, unknown>>,
+        write: Write<Args, Result>,
+        options?: EagerAtomOptions<Value>,
+      ]
 ): WritableAtom<Promise<Value> | Value, Args, Result>;
 
 // read-only atom
 export function eagerAtom<Value>(
   // NOTE: Wrapping in [] to avoid spreading the operation over union elements
-  ...args: [Value] extends [PromiseLike<unknown>] ? [AsyncReadFunctionError] : [read: Read<Value>]
+  ...args: [Value] extends [PromiseLike<unknown>]
+    ? [AsyncReadFunctionError]
+    : [read: Read<Value>, options?: EagerAtomOptions<Value>]
 ): Atom<Promise<Value> | Value>;
 
 export function eagerAtom<Value, Args extends unknown[], Result>(
   // NOTE: Wrapping in [] to avoid spreading the operation over union elements
   ...args: [Value] extends [PromiseLike<unknown>]
     ? [AsyncReadFunctionError]
-    : [read: Read<Value>, write?: Write<Args, Result>]
+    : [
+        read: Read<Value, SetAtom<Args, unknown>>,
+        write?: Write<Args, Result> | EagerAtomOptions<Value>,
+        options?: EagerAtomOptions<Value>,
+      ]
 ): WritableAtom<Promise<Value> | Value, Args, Result> {
-  const [read, write] = args as [read: Read<Value>, write?: Write<Args, Result>];
+  const [read, writeOrOptions, maybeOptions] = args as [
+    read: Read<Value, SetAtom<Args, unknown>>,
+    write?: Write<Args, Result> | EagerAtomOptions<Value>,
+    options?: EagerAtomOptions<Value>,
+  ];
+  const write = typeof writeOrOptions === 'function' ? writeOrOptions : undefined;
+  const {
+    prefetch = true,
+    equals,
+    structuralSharing = false,
+  } = (typeof writeOrOptions === 'object' ? writeOrOptions : maybeOptions) ?? {};
+
+  // Per-store bookkeeping that outlives a single computation.
+  const stateAtom = atom(() => ({
+    deps: new Set<Atom<unknown>>(),
+    memos: [] as MemoSlot[],
+    prev: undefined as { readonly value: Value } | undefined,
+  }));
+
+  if (import.meta.env?.MODE !== 'production') {
+    stateAtom.debugPrivate = true;
+  }
 
   const resultAtom: WritableAtom<Promise<Value> | Value, Args, Result> = atom(
-    (get, { signal }) => {
-      const eagerGet = (<Value>(atomToGet: Atom<Value>): Awaited<Value> =>
-        unwrapPromise(get(atomToGet))) as EagerGetter;
+    (get, options) => {
+      const state = get(stateAtom);
 
-      eagerGet.all = <T extends readonly Atom<unknown>[]>(atoms: T) =>
-        atoms
-          // Jump-starting every asynchronous atom.
-          .map((a) => get(a))
-          // Unwrapping them one by one, sequentially.
-          .map((v) => unwrapPromise(v)) as AwaitedAll<T>;
+      if (prefetch) {
+        // Jump-starting every atom that the previous computation depended on, instead
+        // of waiting for the read function to get to them one by one.
+        for (const dep of state.deps) {
+          try {
+            get(dep);
+          } catch {
+            // The error resurfaces if the read function gets to this atom.
+          }
+        }
+      }
 
-      eagerGet.await = <T>(promiseOrValue: T) => unwrapPromise(promiseOrValue);
-      eagerGet.awaitAll = <T extends readonly unknown[]>(values: T) =>
-        values.map((v) => unwrapPromise(v)) as AwaitedAll<T>;
+      const deps = new Set<Atom<unknown>>();
+      state.deps = deps;
+
+      const memoizer = createMemoizer(state.memos);
+      const eagerGet = createEagerGetter((atomToGet) => {
+        deps.add(atomToGet);
+        return get(atomToGet);
+      }, memoizer);
 
       return resolveSuspension(
-        () => read(eagerGet),
+        () => {
+          if (!(Resumable in read)) {
+            memoizer.rewind();
+          }
+          // Passing the options through as-is, as jotai computes their properties lazily.
+          let value = read(eagerGet, options);
+
+          // Reached only once the computation succeeds, be it synchronously or
+          // after an interruption.
+          if (state.prev) {
+            if (equals?.(state.prev.value, value)) {
+              return state.prev.value;
+            }
+            if (structuralSharing) {
+              value = replaceEqualDeep(state.prev.value, value);
+            }
+          }
+          state.prev = { value };
+          return value;
+        },
         () => get(resultAtom),
-        signal,
+        options.signal,
       );
     },
     write ?? (() => undefined as unknown as Result),
@@ -192,6 +613,57 @@ export function eagerAtom<Value, Args extends unknown[], Result>(
   return resultAtom;
 }
 
+/**
+ * Turns a write function that reads its dependencies through an eager getter into a
+ * regular write function. It runs synchronously if all dependencies are fulfilled, and
+ * returns a Promise of the result only if it had to wait for one of them. Just like eager
+ * read functions, it's retried from the start once the value it waited for is available,
+ * so dependencies should be read before anything is set.
+ * If the write fails before having to wait for anything, the error is thrown synchronously,
+ * otherwise the returned Promise is rejected with it.
+ *
+ * @param write A synchronous function that handles writes to the atom, receiving the eager getter, setter, and arguments.
+ * @returns A write function that can be passed into `eagerAtom` or a vanilla `atom`.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { eagerWrite } from 'jotai-eager';
+ *
+ * const userAtom = atom(fetchUser());
+ * const renameAtom = atom(
+ *   null,
+ *   eagerWrite((get, set, name: string) => {
+ *     const user = get(userAtom); // ✨ no await ✨
+ *     set(userAtom, { ...user, name });
+ *   }),
+ * );
+ * ```
+ */
+export function eagerWrite<Args extends unknown[], Result>(
+  write: EagerWrite<Args, Result>,
+): Write<Args, Result | Promise<Result>> {
+  return (get, set, ...args) => {
+    const memoizer = createMemoizer([]);
+    const eagerGet = createEagerGetter(get, memoizer);
+    const compute = () => {
+      memoizer.rewind();
+      return write(eagerGet, set, ...args);
+    };
+
+    try {
+      return compute();
+    } catch (e) {
+      const suspended = getSuspension(e);
+      if (!suspended) {
+        // Nothing was awaited, so failing just like a regular write function would
+        throw e;
+      }
+      return resumeAfter(suspended, compute);
+    }
+  };
+}
+
 /**
  * Only useful if the eager atom's read function involves a try {} catch {}. Can be used to
  * detect whether a thrown value originates from `jotai-eager`, in which case should be rethrown.
@@ -0,0 +1,153 @@
+import type { Atom, WritableAtom } from 'jotai/vanilla';
+import {
+  type EagerAtomOptions,
+  type Read,
+  type SetAtom,
+  type Write,
+  eagerAtom,
+} from './eagerAtom.ts';
+
+/**
+ * @param createdAt The time at which the atom was created, in milliseconds.
+ */
+export type ShouldRemove<Param> = (createdAt: number, param: Param) => boolean;
+
+export interface EagerAtomFamilyOptions<Param, Value> extends EagerAtomOptions<Value> {
+  /**
+   * Decides whether two params refer to the same atom. By default, params are
+   * compared by reference, which is a good fit for primitive params like IDs.
+   */
+  areEqual?: (a: Param, b: Param) => boolean;
+}
+
+export interface EagerAtomFamily<Param, AtomType> {
+  /**
+   * Returns the atom for `param`, creating it on first access.
+   */
+  (param: Param): AtomType;
+  /**
+   * Returns every param that currently has an atom.
+   */
+  getParams(): Iterable<Param>;
+  /**
+   * Forgets the atom for `param`. The next access creates a new one.
+   */
+  remove(param: Param): void;
+  /**
+   * Registers a predicate deciding whether an atom should be forgotten. It is
+   * called right away for every known atom, and then again whenever an atom is accessed.
+   */
+  setShouldRemove(shouldRemove: ShouldRemove<Param> | null): void;
+}
+
+/**
+ * Creates a family of eager atoms, one per param. The atom for a given param is
+ * created once, and then reused by every subsequent call with an equal param.
+ * The atoms are held onto until they're removed, see `remove` and `setShouldRemove`.
+ *
+ * @param initializeRead A function that returns the read function of the eager atom for the given param.
+ * @param initializeWrite An optional function that returns the write function of the eager atom for the given param.
+ * @param options Optional settings, see `EagerAtomFamilyOptions`. Every option other than `areEqual` is passed to each eager atom.
+ * @returns A function that returns the eager atom for the given param.
+ *
+ * @example
+ * ```ts
+ * import { eagerAtomFamily } from 'jotai-eager';
+ *
+ * const userAtomFamily = eagerAtomFamily((id: string) => (get) => {
+ *   const users = get(usersAtom);
+ *   return users.find((user) => user.id === id);
+ * });
+ *
+ * const johnAtom = userAtomFamily('john');
+ * ```
+ */
+// writable atoms
+export function eagerAtomFamily<Param, Value, Args extends unknown[], Result>(
+  initializeRead: (param: Param) => Read<Value, SetAtom<Args, unknown>>,
+  initializeWrite: (param: Param) => Write<Args, Result>,
+  options?: EagerAtomFamilyOptions<Param, Value>,
+): EagerAtomFamily<Param, WritableAtom<Promise<Value> | Value, Args, Result>>;
+
+// read-only atoms
+export function eagerAtomFamily<Param, Value>(
+  initializeRead: (param: Param) => Read<Value>,
+  options?: EagerAtomFamilyOptions<Param, Value>,
+): EagerAtomFamily<Param, Atom<Promise<Value> | Value>>;
+
+export function eagerAtomFamily<Param, Value, Args extends unknown[], Result>(
+  initializeRead: (param: Param) => Read<Value>,
+  initializeWriteOrOptions?:
+    | ((param: Param) => Write<Args, Result>)
+    | EagerAtomFamilyOptions<Param, Value>,
+  maybeOptions?: EagerAtomFamilyOptions<Param, Value>,
+): EagerAtomFamily<Param, WritableAtom<Promise<Value> | Value, Args, Result>> {
+  type AtomType = WritableAtom<Promise<Value> | Value, Args, Result>;
+
+  const initializeWrite =
+    typeof initializeWriteOrOptions === 'function' ? initializeWriteOrOptions : undefined;
+  const { areEqual, ...atomOptions } =
+    (typeof initializeWriteOrOptions === 'object' ? initializeWriteOrOptions : maybeOptions) ?? {};
+
+  const atoms = new Map<Param, { atom: AtomType; createdAt: number }>();
+  let shouldRemove: ShouldRemove<Param> | null = null;
+
+  const findKey = (param: Param): { key: Param } | undefined => {
+    if (!areEqual) {
+      return atoms.has(param) ? { key: param } : undefined;
+    }
+    for (const key of atoms.keys()) {
+      if (areEqual(key, param)) {
+        return { key };
+      }
+    }
+    return undefined;
+  };
+
+  const family = ((param: Param) => {
+    const found = findKey(param);
+    if (found) {
+      const item = atoms.get(found.key)!;
+      if (!shouldRemove?.(item.createdAt, found.key)) {
+        return item.atom;
+      }
+      atoms.delete(found.key);
+    }
+
+    const read = initializeRead(param) as Read<Value, SetAtom<Args, unknown>>;
+    const newAtom = (
+      initializeWrite
+        ? eagerAtom<unknown, Args, Result>(
+            read,
+            initializeWrite(param),
+            atomOptions as EagerAtomOptions,
+          )
+        : eagerAtom<unknown>(read, atomOptions as EagerAtomOptions)
+    ) as AtomType;
+    atoms.set(param, { atom: newAtom, createdAt: Date.now() });
+    return newAtom;
+  }) as EagerAtomFamily<Param, AtomType>;
+
+  family.getParams = () => atoms.keys();
+
+  family.remove = (param) => {
+    const found = findKey(param);
+    if (found) {
+      atoms.delete(found.key);
+    }
+  };
+
+  family.setShouldRemove = (fn) => {
+    shouldRemove = fn;
+    if (!shouldRemove) {
+      return;
+    }
+    for (const [key, { createdAt }] of atoms) {
+      if (shouldRemove(createdAt, key)) {
+        atoms.delete(key);
+      }
+    }
+  };
+
+  return family;
+}
@@ -0,0 +1,71 @@
+import { atom } from 'jotai/vanilla';
+import type { WritableAtom } from 'jotai/vanilla';
+import { RESET } from 'jotai/vanilla/utils';
+import {
+  type EagerAtomOptions,
+  type EagerGetter,
+  type EagerReadOptions,
+  eagerAtom,
+  eagerWrite,
+} from './eagerAtom.ts';
+
+export type DefaultSetStateAction<Value> =
+  | Value
+  | typeof RESET
+  | ((prev: Value) => Value | typeof RESET);
+
+const Empty = Symbol('Not overwritten');
+
+/**
+ * Creates an atom whose value defaults to the result of an eager read function, until
+ * it's overwritten with `set`. Unlike Jotai's `atomWithDefault`, the default is computed
+ * synchronously whenever its dependencies are known.
+ * Writing `RESET` makes the atom go back to tracking the default.
+ *
+ * @param read A function that computes the default value using the eager getter, just like in `eagerAtom`.
+ * @param options Optional settings of the default's eager atom, see `EagerAtomOptions`.
+ * @returns A writable atom that accepts a new value, an updater function or `RESET`. Writing an updater
+ * function returns a promise if the current value had to be awaited first.
+ *
+ * @example
+ * ```ts
+ * import { RESET } from 'jotai/utils';
+ * import { eagerAtomWithDefault } from 'jotai-eager';
+ *
+ * const draftNameAtom = eagerAtomWithDefault((get) => get(userAtom).name);
+ *
+ * store.set(draftNameAtom, 'Johnny'); // local edit
+ * store.set(draftNameAtom, RESET); // back to the user's name
+ * ```
+ */
+export function eagerAtomWithDefault<Value>(
+  read: (get: EagerGetter, options: EagerReadOptions) => Value,
+  options?: EagerAtomOptions<Value>,
+): WritableAtom<Value | Promise<Value>, [DefaultSetStateAction<Value>], void | Promise<void>> {
+  const overwrittenAtom = atom<Value | typeof Empty>(Empty);
+
+  if (import.meta.env?.MODE !== 'production') {
+    overwrittenAtom.debugPrivate = true;
+  }
+
+  const anAtom = eagerAtom<unknown, [DefaultSetStateAction<Value>], void | Promise<void>>(
+    (get, readOptions) => {
+      const overwritten = get(overwrittenAtom);
+      if (overwritten !== Empty) {
+        return overwritten;
+      }
+      return read(get, readOptions as EagerReadOptions);
+    },
+    eagerWrite((get, set, update: DefaultSetStateAction<Value>) => {
+      const nextValue =
+        typeof update === 'function'
+          ? (update as (prev: Value) => Value | typeof RESET)(get(anAtom) as Value)
+          : update;
+
+      set(overwrittenAtom, nextValue === RESET ? Empty : nextValue);
+    }),
+    options as EagerAtomOptions,
+  ) as WritableAtom<Value | Promise<Value>, [DefaultSetStateAction<Value>], void | Promise<void>>;
+
+  return anAtom;
+}
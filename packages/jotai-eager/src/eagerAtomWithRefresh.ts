@@ -0,0 +1,117 @@
+import { atom } from 'jotai/vanilla';
+import type { Atom, WritableAtom } from 'jotai/vanilla';
+import {
+  type EagerAtomOptions,
+  type Read,
+  type SetAtom,
+  type Write,
+  eagerAtom,
+} from './eagerAtom.ts';
+import { soon } from './soon.ts';
+import { withPendingState } from './withPending.ts';
+
+export interface RefreshState<Value> {
+  value: Value;
+  isRefreshing: boolean;
+}
+
+export type WritableAtomWithRefresh<Value, Args extends unknown[], Result> = WritableAtom<
+  Promise<Value> | Value,
+  Args,
+  Result
+> & {
+  /**
+   * Holds the latest value along with whether a refresh is in progress, so that the previous
+   * value keeps being shown until the new one lands. Suspends only until the first value does.
+   */
+  readonly stateAtom: Atom<RefreshState<Value> | Promise<RefreshState<Value>>>;
+};
+
+/**
+ * Creates an eager atom that can be recomputed on demand, by writing to it without any arguments.
+ * Refreshing aborts the `signal` of the previous computation, and starts over with a fresh
+ * `get.cache()`, which makes it a good fit for refetching data.
+ * Read its `stateAtom` to keep showing the previous value, along with an `isRefreshing` flag,
+ * until the new one lands.
+ *
+ * @param read A function that computes the atom's value using the eager getter, just like in `eagerAtom`.
+ * @param write An optional function to handle writes to the atom with arguments, receiving the standard getter, setter, and arguments.
+ * @param options Optional settings, see `EagerAtomOptions`.
+ * @returns A writable atom that refreshes when written to without arguments, with a companion `stateAtom`.
+ *
+ * @example
+ * ```ts
+ * import { eagerAtomWithRefresh } from 'jotai-eager';
+ *
+ * const userAtom = eagerAtomWithRefresh((get, { signal }) => {
+ *   const id = get(userIdAtom);
+ *   return get.await(get.cache('user', () => fetchUser(id, { signal })));
+ * });
+ *
+ * store.set(userAtom); // refetches the user
+ * store.get(userAtom.stateAtom); // { value: previousUser, isRefreshing: true }
+ * ```
+ */
+// writable atom
+export function eagerAtomWithRefresh<Value, Args extends unknown[], Result>(
+  read: Read<Value, SetAtom<Args | [], unknown>>,
+  write: Write<Args, Result>,
+  options?: EagerAtomOptions<Value>,
+): WritableAtomWithRefresh<Value, Args | [], Result | void>;
+
+// read-only atom
+export function eagerAtomWithRefresh<Value>(
+  read: Read<Value, SetAtom<[], void>>,
+  options?: EagerAtomOptions<Value>,
+): WritableAtomWithRefresh<Value, [], void>;
+
+export function eagerAtomWithRefresh<Value, Args extends unknown[], Result>(
+  read: Read<Value, SetAtom<Args | [], unknown>>,
+  writeOrOptions?: Write<Args, Result> | EagerAtomOptions<Value>,
+  maybeOptions?: EagerAtomOptions<Value>,
+): WritableAtomWithRefresh<Value, Args | [], Result | void> {
+  const write = typeof writeOrOptions === 'function' ? writeOrOptions : undefined;
+  const options = typeof writeOrOptions === 'object' ? writeOrOptions : maybeOptions;
+
+  const refreshAtom = atom(0);
+
+  if (import.meta.env?.MODE !== 'production') {
+    refreshAtom.debugPrivate = true;
+  }
+
+  const anAtom = eagerAtom<unknown, Args | [], Result | void>(
+    (get, readOptions) => {
+      get(refreshAtom);
+      return read(get, readOptions);
+    },
+    (get, set, ...args) => {
+      if (args.length === 0) {
+        set(refreshAtom, (c) => c + 1);
+      } else if (write) {
+        return write(get, set, ...(args as Args));
+      }
+    },
+    options as EagerAtomOptions,
+  ) as WritableAtom<Promise<Value> | Value, Args | [], Result | void>;
+
+  const pendingStateAtom = withPendingState(anAtom);
+
+  if (import.meta.env?.MODE !== 'production') {
+    pendingStateAtom.debugPrivate = true;
+  }
+
+  const stateAtom = atom((get): RefreshState<Value> | Promise<RefreshState<Value>> => {
+    const state = get(pendingStateAtom);
+    if (!state.isPending || state.isStale) {
+      return { value: state.value as Value, isRefreshing: state.isPending };
+    }
+    // Nothing to keep showing yet, so waiting for the first value to land
+    return soon(state.pending, (value) => ({ value: value as Value, isRefreshing: false }));
+  });
+
+  return Object.assign(anAtom, { stateAtom }) as WritableAtomWithRefresh<
+    Value,
+    Args | [],
+    Result | void
+  >;
+}
@@ -0,0 +1,245 @@
+import type { Atom, WritableAtom } from 'jotai/vanilla';
+import {
+  type AwaitedAll,
+  type EagerAtomOptions,
+  type EagerError,
+  type EagerGetter,
+  type EagerReadOptions,
+  Resumable,
+  type SetAtom,
+  type SettledAll,
+  type Write,
+  eagerAtom,
+  isEagerError,
+} from './eagerAtom.ts';
+import type { Loadable } from './loadable.ts';
+
+/**
+ * A computation that can interrupt the eager atom. Delegate to it with `yield*`.
+ */
+export type Eager<T> = Generator<EagerError, T, unknown>;
+
+export interface EagerGenGetter {
+  /**
+   * Retrieves the atom's fulfilled value.
+   * If the value is not yet available, it interrupts the execution
+   * of the eager atom until it's available.
+   */
+  <Value>(atom: Atom<Value>): Eager<Awaited<Value>>;
+  /**
+   * Retrieves the Promise's fulfilled value.
+   * If the value is not yet available, it interrupts the execution
+   * of the eager atom until it's available.
+   */
+  await<T>(promiseOrValue: T): Eager<Awaited<T>>;
+  /**
+   * Retrieves the fulfilled value of all passed in Promises.
+   * If the values are not yet available, it interrupts the execution
+   * of the eager atom until they're available.
+   */
+  awaitAll<T extends readonly unknown[]>(args: T): Eager<AwaitedAll<T>>;
+  /**
+   * Retrieves the fulfilled value of all passed in atoms.
+   * If the values are not yet available, it interrupts the execution
+   * of the eager atom until they're available.
+   */
+  all<T extends readonly Atom<unknown>[]>(atoms: T): Eager<AwaitedAll<T>>;
+  /**
+   * Retrieves the outcome of all passed in Promises, whether they fulfilled or rejected.
+   * If any of them is not yet settled, it interrupts the execution
+   * of the eager atom until all of them are.
+   */
+  awaitAllSettled<T extends readonly unknown[] | []>(args: T): Eager<SettledAll<T>>;
+  /**
+   * Retrieves the outcome of all passed in atoms, whether they fulfilled or rejected.
+   * If any of them is not yet settled, it interrupts the execution
+   * of the eager atom until all of them are.
+   */
+  allSettled<T extends readonly Atom<unknown>[] | []>(atoms: T): Eager<SettledAll<T>>;
+  /**
+   * Retrieves the outcome of the first passed in Promise to settle, like `Promise.race`.
+   * If none of them are settled yet, it interrupts the execution
+   * of the eager atom until one of them is.
+   */
+  awaitRace<T extends readonly unknown[] | []>(args: T): Eager<AwaitedAll<T>[number]>;
+  /**
+   * Retrieves the outcome of the first passed in atom to settle, like `Promise.race`.
+   * If none of them are settled yet, it interrupts the execution
+   * of the eager atom until one of them is.
+   */
+  race<T extends readonly Atom<unknown>[] | []>(atoms: T): Eager<AwaitedAll<T>[number]>;
+  /**
+   * Retrieves the value of the first passed in Promise to fulfill, like `Promise.any`.
+   * If none of them are fulfilled yet, it interrupts the execution
+   * of the eager atom until one of them is, or until all of them reject.
+   */
+  awaitAny<T extends readonly unknown[] | []>(args: T): Eager<AwaitedAll<T>[number]>;
+  /**
+   * Retrieves the value of the first passed in atom to fulfill, like `Promise.any`.
+   * If none of them are fulfilled yet, it interrupts the execution
+   * of the eager atom until one of them is, or until all of them reject.
+   */
+  any<T extends readonly Atom<unknown>[] | []>(atoms: T): Eager<AwaitedAll<T>[number]>;
+  /**
+   * Retrieves the atom's current state, without interrupting the execution
+   * of the eager atom if the value is not yet available. The eager atom is
+   * recomputed once the state changes.
+   */
+  peek<Value>(atom: Atom<Value>): Loadable<Value>;
+  /**
+   * Retrieves the atom's fulfilled value, or `fallback` if the value is not yet
+   * available, without interrupting the execution of the eager atom. The eager atom
+   * is recomputed once the value becomes available.
+   */
+  orElse<Value, Fallback>(atom: Atom<Value>, fallback: Fallback): Awaited<Value> | Fallback;
+  /**
+   * Returns the result of `factory`, called once per `key` until the eager atom's
+   * dependencies change. Allows Promises created inside the read function to be
+   * passed into `get.await()`, as they stay the same across interrupted executions.
+   */
+  cache<T>(key: unknown, factory: () => T): T;
+  /**
+   * Returns the result of `fn`, which is only called again if any of the `deps` changed
+   * (compared with `Object.is`). The result is kept across recomputations of the eager
+   * atom, which makes it a good fit for expensive steps.
+   * Like React hooks, it has to be called in the same order on every execution.
+   */
+  memo<T>(fn: () => T, deps: readonly unknown[]): T;
+}
+
+type GenRead<Value, SetSelf = never> = (
+  get: EagerGenGetter,
+  options: EagerReadOptions<SetSelf>,
+) => Eager<Value>;
+
+/**
+ * Turns a call that interrupts by throwing into one that interrupts by yielding, so
+ * that `try` & `catch` blocks in the generator only ever see genuine errors.
+ */
+function* attempt<T>(compute: () => T): Eager<T> {
+  while (true) {
+    try {
+      return compute();
+    } catch (e) {
+      if (!isEagerError(e)) {
+        throw e;
+      }
+      yield e as EagerError;
+    }
+  }
+}
+
+function createEagerGenGetter(eagerGet: EagerGetter): EagerGenGetter {
+  const genGet = (<Value>(atomToGet: Atom<Value>) =>
+    attempt(() => eagerGet(atomToGet))) as EagerGenGetter;
+
+  genGet.await = (promiseOrValue) => attempt(() => eagerGet.await(promiseOrValue));
+  genGet.awaitAll = (values) => attempt(() => eagerGet.awaitAll(values));
+  genGet.all = (atoms) => attempt(() => eagerGet.all(atoms));
+  genGet.awaitAllSettled = (values) => attempt(() => eagerGet.awaitAllSettled(values));
+  genGet.allSettled = (atoms) => attempt(() => eagerGet.allSettled(atoms));
+  genGet.awaitRace = (values) => attempt(() => eagerGet.awaitRace(values));
+  genGet.race = (atoms) => attempt(() => eagerGet.race(atoms));
+  genGet.awaitAny = (values) => attempt(() => eagerGet.awaitAny(values));
+  genGet.any = (atoms) => attempt(() => eagerGet.any(atoms));
+
+  // These never interrupt the execution
+  genGet.peek = eagerGet.peek;
+  genGet.orElse = eagerGet.orElse;
+  genGet.cache = eagerGet.cache;
+  genGet.memo = eagerGet.memo;
+
+  return genGet;
+}
+
+/**
+ * A variant of `eagerAtom` whose read function is a generator. Instead of throwing,
+ * an unfulfilled dependency interrupts the computation by yielding, which means
+ * `try` & `catch` blocks inside the read function never have to deal with the
+ * interruption (no need for `isEagerError`).
+ * Every call on the getter that can interrupt the computation has to be delegated to with `yield*`.
+ * Once the awaited dependency is fulfilled, the computation is resumed where it left off, instead
+ * of running the read function from the start.
+ *
+ * @param read A generator function that computes the atom's value using the eager getter. Also receives the computation's abort `signal` and `setSelf`, like vanilla read functions.
+ * @param write An optional function to handle writes to the atom, receiving the standard getter, setter, and arguments.
+ * @param options Optional settings, see `EagerAtomOptions`.
+ * @returns An atom that resolves to the computed value or a promise of the result if dependencies are pending. For writable atoms, includes write functionality.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { eagerGenAtom } from 'jotai-eager';
+ *
+ * const userAtom = atom(fetchUser());
+ * const greetingAtom = eagerGenAtom(function* (get) {
+ *   try {
+ *     const user = yield* get(userAtom);
+ *     return `Hello, ${user.name}!`;
+ *   } catch {
+ *     return 'Hello, stranger!';
+ *   }
+ * });
+ * ```
+ */
+// writable atom
+export function eagerGenAtom<Value, Args extends unknown[], Result>(
+  read: GenRead<Value, SetAtom<Args, unknown>>,
+  write: Write<Args, Result>,
+  options?: EagerAtomOptions<Value>,
+): WritableAtom<Promise<Value> | Value, Args, Result>;
+
+// read-only atom
+export function eagerGenAtom<Value>(
+  read: GenRead<Value>,
+  options?: EagerAtomOptions<Value>,
+): Atom<Promise<Value> | Value>;
+
+export function eagerGenAtom<Value, Args extends unknown[], Result>(
+  read: GenRead<Value>,
+  writeOrOptions?: Write<Args, Result> | EagerAtomOptions<Value>,
+  options?: EagerAtomOptions<Value>,
+): WritableAtom<Promise<Value> | Value, Args, Result> {
+  // The eager getter is the same across retries of a single computation, which
+  // lets us resume the interrupted generator instead of starting over.
+  const interrupted = new WeakMap<EagerGetter, Eager<Value>>();
+
+  const eagerRead = (eagerGet: EagerGetter, options: EagerReadOptions<SetAtom<Args, unknown>>) => {
+    let generator = interrupted.get(eagerGet);
+    if (!generator) {
+      const newGenerator = (read as GenRead<Value, SetAtom<Args, unknown>>)(
+        createEagerGenGetter(eagerGet),
+        options,
+      );
+      // Letting the generator run its `finally` blocks if the computation is abandoned.
+      options.signal.addEventListener('abort', () => newGenerator.return(undefined as Value), {
+        once: true,
+      });
+      generator = newGenerator;
+    }
+
+    let result: IteratorResult<EagerError, Value>;
+    try {
+      result = generator.next();
+    } catch (e) {
+      interrupted.delete(eagerGet);
+      throw e;
+    }
+
+    if (!result.done) {
+      // The computation got interrupted, handing it over to the eager atom.
+      interrupted.set(eagerGet, generator);
+      throw result.value;
+    }
+
+    interrupted.delete(eagerGet);
+    return result.value;
+  };
+  eagerRead[Resumable] = true;
+
+  return eagerAtom<unknown, Args, Result>(
+    eagerRead,
+    writeOrOptions as Write<Args, Result>,
+    options as EagerAtomOptions,
+  ) as WritableAtom<Promise<Value> | Value, Args, Result>;
+}
@@ -0,0 +1,68 @@
+import { atom } from 'jotai/vanilla';
+import type { Atom } from 'jotai/vanilla';
+import { getFulfilledValue, isKnown, isPromiseLike, trackPromise } from './isPromise.ts';
+import { createMemoCache, memoN } from './memo.ts';
+import { soon } from './soon.ts';
+
+const selectCache = createMemoCache();
+
+const Empty = Symbol('No slice selected yet');
+
+/**
+ * Creates an atom that holds a slice of `anAtom`'s value. Unlike Jotai's `selectAtom`, the slice
+ * is selected synchronously whenever the value of `anAtom` is known, and a Promise of the slice is
+ * returned only if it's not.
+ * The previously selected slice is kept as long as `equalityFn` deems it equal to the new one, which
+ * lets subscribers of the slice skip rerenders caused by unrelated changes.
+ *
+ * @param anAtom The atom to select a slice of, which may resolve asynchronously.
+ * @param selector A function that selects the slice out of the fulfilled value, also receiving the previously selected slice.
+ * @param equalityFn A function that decides whether the previous slice can be kept. Defaults to `Object.is`.
+ * @returns An atom that returns the slice, or a promise of the slice if the value of `anAtom` is pending.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { eagerSelectAtom } from 'jotai-eager';
+ *
+ * const userAtom = atom(fetchUser());
+ * const userNameAtom = eagerSelectAtom(userAtom, (user) => user.name);
+ * ```
+ */
+export function eagerSelectAtom<Value, Slice>(
+  anAtom: Atom<Value>,
+  selector: (value: Awaited<Value>, prevSlice?: Slice) => Slice,
+  equalityFn: (a: Slice, b: Slice) => boolean = Object.is,
+): Atom<Slice | Promise<Slice>> {
+  return memoN(
+    () => {
+      const selectSlice = (value: Awaited<Value>, prev: Slice | Promise<Slice> | typeof Empty) => {
+        // The previous slice could have been pending when this one got requested
+        if (prev === Empty || !isKnown(prev)) {
+          return selector(value);
+        }
+        const prevSlice = getFulfilledValue<Slice>(prev);
+        const slice = selector(value, prevSlice);
+        return equalityFn(prevSlice, slice) ? prevSlice : slice;
+      };
+
+      const derivedAtom: Atom<Slice | Promise<Slice> | typeof Empty> & {
+        init?: typeof Empty;
+      } = atom((get) => {
+        const prev = get(derivedAtom);
+        const slice = soon(get(anAtom), (value) => selectSlice(value, prev));
+
+        if (isPromiseLike(slice)) {
+          // Letting the next selection, and downstream jotai-eager APIs, use the slice right away
+          trackPromise(slice);
+        }
+        return slice as Slice | Promise<Slice>;
+      });
+      derivedAtom.init = Empty;
+
+      return derivedAtom as Atom<Slice | Promise<Slice>>;
+    },
+    selectCache,
+    [anAtom, selector, equalityFn],
+  );
+}
@@ -0,0 +1,128 @@
+import { atom } from 'jotai/vanilla';
+import type { Atom } from 'jotai/vanilla';
+import { rejectedPromise, setPromiseMeta } from './isPromise.ts';
+import type { Loadable } from './loadable.ts';
+import { memo1 } from './memo.ts';
+
+const cache1 = new WeakMap();
+
+interface PendingPromise<Value> {
+  readonly promise: Promise<Value>;
+  readonly resolve: (value: Value) => void;
+  readonly reject: (reason: unknown) => void;
+}
+
+function createPendingPromise<Value>(): PendingPromise<Value> {
+  let resolve!: (value: Value) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<Value>((res, rej) => {
+    resolve = (value) => {
+      setPromiseMeta(promise, { status: 'fulfilled', value });
+      res(value);
+    };
+    reject = (reason) => {
+      setPromiseMeta(promise, { status: 'rejected', reason });
+      rej(reason);
+    };
+  });
+  // Whoever holds onto the promise is responsible for handling the rejection
+  promise.catch(() => {});
+
+  return { promise, resolve, reject };
+}
+
+/**
+ * Turns an atom holding a `Loadable` back into an atom that suspends while loading. The value is known
+ * right away when the loadable has data, otherwise it's a promise that settles once the loadable does.
+ * The same promise is returned for as long as the loadable keeps loading, and it's registered in the
+ * Promise cache shared between all jotai-eager APIs, so eager consumers see the data as soon as it arrives.
+ *
+ * @param loadableAtom The atom holding a loadable state, for example data pushed over a socket.
+ * @returns An atom that returns the data, a promise of the data while loading, or a rejected promise on error.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { fromLoadable, type Loadable } from 'jotai-eager';
+ *
+ * const messagesLoadableAtom = atom<Loadable<Message[]>>({ state: 'loading' });
+ * const messagesAtom = fromLoadable(messagesLoadableAtom);
+ * // messagesAtom returns: Promise<Message[]> while loading, Message[] once it has data
+ * ```
+ */
+export function fromLoadable<Value>(
+  loadableAtom: Atom<Loadable<Value>>,
+): Atom<Awaited<Value> | Promise<Awaited<Value>>> {
+  return memo1(
+    () => {
+      // Per-store promise of the loadable leaving the 'loading' state
+      const stateAtom = atom(() => ({
+        pending: undefined as PendingPromise<Awaited<Value>> | undefined,
+      }));
+
+      if (import.meta.env?.MODE !== 'production') {
+        stateAtom.debugPrivate = true;
+      }
+
+      return atom((get) => {
+        const state = get(stateAtom);
+        const loadable = get(loadableAtom);
+
+        if (loadable.state === 'loading') {
+          state.pending ??= createPendingPromise();
+          return state.pending.promise;
+        }
+
+        const pending = state.pending;
+        state.pending = undefined;
+
+        if (loadable.state === 'hasError') {
+          pending?.reject(loadable.error);
+          return pending?.promise ?? rejectedPromise<Awaited<Value>>(loadable.error);
+        }
+
+        pending?.resolve(loadable.data);
+        return loadable.data;
+      });
+    },
+    cache1,
+    loadableAtom,
+  );
+}
+
+/**
+ * Turns an atom that holds a `sentinel` value while pending into an atom that suspends instead.
+ * Works just like `fromLoadable`, but for values that signal being pending on their own.
+ *
+ * @param anAtom The atom to wrap, for example one holding data pushed over a socket.
+ * @param sentinel The value that means the atom is still pending, compared with `Object.is`.
+ * @returns An atom that returns the value, or a promise of the value while `anAtom` holds `sentinel`.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { suspendOn } from 'jotai-eager';
+ *
+ * const messagesOrNullAtom = atom<Message[] | null>(null);
+ * const messagesAtom = suspendOn(messagesOrNullAtom, null);
+ * // messagesAtom returns: Promise<Message[]> while null, Message[] otherwise
+ * ```
+ */
+export function suspendOn<Value, Sentinel extends Value>(
+  anAtom: Atom<Value>,
+  sentinel: Sentinel,
+): Atom<Awaited<Exclude<Value, Sentinel>> | Promise<Awaited<Exclude<Value, Sentinel>>>> {
+  const loadableAtom = atom((get): Loadable<Exclude<Value, Sentinel>> => {
+    const value = get(anAtom);
+    if (Object.is(value, sentinel)) {
+      return { state: 'loading' };
+    }
+    return { state: 'hasData', data: value as Awaited<Exclude<Value, Sentinel>> };
+  });
+
+  if (import.meta.env?.MODE !== 'production') {
+    loadableAtom.debugPrivate = true;
+  }
+
+  return fromLoadable(loadableAtom);
+}
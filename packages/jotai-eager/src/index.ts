@@ -1,6 +1,44 @@
 export { derive } from './derive.ts';
-export { eagerAtom, isEagerError } from './eagerAtom.ts';
-export { loadable } from './loadable.ts';
+export {
+  eagerAtom,
+  eagerWrite,
+  isEagerError,
+  type EagerAtomOptions,
+  type EagerGetter,
+  type EagerReadOptions,
+} from './eagerAtom.ts';
+export {
+  eagerAtomFamily,
+  type EagerAtomFamily,
+  type EagerAtomFamilyOptions,
+} from './eagerAtomFamily.ts';
+export { eagerAtomWithDefault } from './eagerAtomWithDefault.ts';
+export {
+  eagerAtomWithRefresh,
+  type RefreshState,
+  type WritableAtomWithRefresh,
+} from './eagerAtomWithRefresh.ts';
+export { eagerGenAtom, type Eager, type EagerGenGetter } from './eagerGenAtom.ts';
+export { eagerSelectAtom } from './eagerSelectAtom.ts';
+export { fromLoadable, suspendOn } from './fromLoadable.ts';
+export { type Settled } from './isPromise.ts';
+export { loadable, type Loadable } from './loadable.ts';
+export { loadableAll } from './loadableAll.ts';
+export { loadableWithPrevious, type LoadableWithPrevious } from './loadableWithPrevious.ts';
 export { soon } from './soon.ts';
 export { soonAll } from './soonAll.ts';
-export { withPending } from './withPending.ts';
+export { soonAllSettled } from './soonAllSettled.ts';
+export { soonAny } from './soonAny.ts';
+export { soonCatch } from './soonCatch.ts';
+export { soonFinally } from './soonFinally.ts';
+export { soonPipe } from './soonPipe.ts';
+export { soonProps } from './soonProps.ts';
+export { soonRace } from './soonRace.ts';
+export {
+  withPending,
+  withPendingState,
+  type PendingState,
+  type PendingTimingOptions,
+  type WithPendingErrorContext,
+  type WithPendingOptions,
+} from './withPending.ts';
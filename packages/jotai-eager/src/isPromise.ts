@@ -12,6 +12,10 @@ interface PromiseMetaRejected {
   reason: unknown;
 }
 
+export type Settled<T> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; reason: unknown };
+
 type PromiseMeta<T> = PromiseMetaPending | PromiseMetaFulfilled<T> | PromiseMetaRejected;
 
 const PENDING: PromiseMetaPending = { status: 'pending' } as const;
@@ -58,7 +62,50 @@ export function getFulfilledValue<T>(promiseOrValue: PromiseLike<T> | unknown):
   return promiseOrValue as T;
 }
 
+/**
+ * Records the outcome of `promise` in the meta cache once it settles, so that it's known from then on.
+ * @returns `promise` itself.
+ */
+export function trackPromise<T extends PromiseLike<unknown>>(promise: T): T {
+  promise.then(
+    (value) => setPromiseMeta(promise, { status: 'fulfilled', value }),
+    (reason) => setPromiseMeta(promise, { status: 'rejected', reason }),
+  );
+  return promise;
+}
+
+/**
+ * @returns A promise rejected with `reason`, which is known to be rejected right away.
+ */
+export function rejectedPromise<T = never>(reason: unknown): Promise<T> {
+  const promise = Promise.reject<T>(reason);
+  setPromiseMeta(promise, { status: 'rejected', reason });
+  return promise;
+}
+
+/**
+ * Same as `rejectedPromise`, but the rejection is marked as handled. Only meant for promises that
+ * never reach the user, and whose rejection is inspected through their meta instead.
+ */
+export function handledRejectedPromise<T = never>(reason: unknown): Promise<T> {
+  const promise = rejectedPromise<T>(reason);
+  promise.catch(() => {});
+  return promise;
+}
+
 export function getRejectionReason(promise: PromiseLike<unknown>): unknown {
   const meta = getPromiseMeta(promise);
   return (meta as PromiseMetaRejected)?.reason;
 }
+
+export function aggregateError(errors: unknown[], message: string): Error {
+  // `AggregateError` is not part of the ES2018 standard library.
+  const AggregateErrorCtor = (
+    globalThis as { AggregateError?: new (errors: unknown[], message: string) => Error }
+  ).AggregateError;
+
+  if (AggregateErrorCtor) {
+    return new AggregateErrorCtor(errors, message);
+  }
+  return Object.assign(new Error(message), { errors });
+}
@@ -1,10 +1,10 @@
 import { atom } from 'jotai/vanilla';
 import type { Atom } from 'jotai/vanilla';
-import { withPending } from './withPending.ts';
+import { isPromiseLike } from './isPromise.ts';
+import { memo1 } from './memo.ts';
+import { type PendingTimingOptions, withPending } from './withPending.ts';
 
 const cache1 = new WeakMap();
-const memo1 = <T>(create: () => T, dep1: object): T =>
-  (cache1.has(dep1) ? cache1 : cache1.set(dep1, create())).get(dep1);
 
 export type Loadable<Value> =
   | { state: 'loading' }
@@ -13,11 +13,58 @@ export type Loadable<Value> =
 
 const Pending = Symbol('The loadable is pending');
 
+const settledLoadables = new WeakMap<PromiseLike<unknown>, Promise<Loadable<unknown>>>();
+
+/**
+ * @returns A promise of the loadable state that `promise` settles into, the same one for every call.
+ */
+export function settledLoadable<Value>(
+  promise: PromiseLike<Awaited<Value>>,
+): Promise<Loadable<Value>> {
+  let settled = settledLoadables.get(promise);
+  if (!settled) {
+    settled = Promise.resolve(promise).then(
+      (data): Loadable<Value> => ({ state: 'hasData', data }),
+      (error): Loadable<Value> => ({ state: 'hasError', error }),
+    );
+    settledLoadables.set(promise, settled);
+  }
+  return settled as Promise<Loadable<Value>>;
+}
+
 /**
  * Wraps an atom to provide a loadable state, representing its value as 'loading', 'hasError', or 'hasData'.
  * Shares a Promise cache between all jotai-eager APIs, further minimizing suspensions.
+ * With `delayMs`, the atom suspends on the first load until 'loading' is due, instead of flashing it.
  *
  * @param anAtom The atom whose value should be wrapped in a loadable state.
+ * @param options Settings to avoid a flash of the loading state, including `delayMs`, see `PendingTimingOptions`.
+ * Atoms created with options are not shared between calls, so make sure to create them once.
+ * @returns An atom that returns a Loadable object indicating the current state of the input atom's value,
+ * or a promise of it during `delayMs` of the first load.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { loadable } from 'jotai-eager';
+ *
+ * const asyncAtom = atom(async () => 'data');
+ * const loadableAtom = loadable(asyncAtom, { delayMs: 200 });
+ * // loadableAtom returns: Promise<Loadable<string>> for the first 200ms, then { state: 'loading' } until 'data' arrives
+ * ```
+ */
+export function loadable<Value>(
+  anAtom: Atom<Value>,
+  options: PendingTimingOptions & { delayMs: number },
+): Atom<Loadable<Value> | Promise<Loadable<Value>>>;
+
+/**
+ * Wraps an atom to provide a loadable state, representing its value as 'loading', 'hasError', or 'hasData'.
+ * Shares a Promise cache between all jotai-eager APIs, further minimizing suspensions.
+ *
+ * @param anAtom The atom whose value should be wrapped in a loadable state.
+ * @param options Optional settings to avoid a flash of the loading state, see `PendingTimingOptions`.
+ * Atoms created with options are not shared between calls, so make sure to create them once.
  * @returns An atom that returns a Loadable object indicating the current state of the input atom's value.
  *
  * @example
@@ -30,15 +77,23 @@ const Pending = Symbol('The loadable is pending');
  * // loadableAtom returns: { state: 'loading' } | { state: 'hasError', error: unknown } | { state: 'hasData', data: 'data' }
  * ```
  */
-export function loadable<Value>(anAtom: Atom<Value>): Atom<Loadable<Value>> {
-  return memo1(() => {
-    const atomWithPending = withPending(anAtom, (): typeof Pending => Pending);
+export function loadable<Value>(
+  anAtom: Atom<Value>,
+  options?: PendingTimingOptions,
+): Atom<Loadable<Value>>;
+
+export function loadable<Value>(
+  anAtom: Atom<Value>,
+  options?: PendingTimingOptions,
+): Atom<Loadable<Value> | Promise<Loadable<Value>>> {
+  const createLoadable = (): Atom<Loadable<Value> | Promise<Loadable<Value>>> => {
+    const atomWithPending = withPending(anAtom, (): typeof Pending => Pending, options);
     if (import.meta.env?.MODE !== 'production') {
       atomWithPending.debugPrivate = true;
     }
 
-    return atom((get) => {
-      let value: Awaited<Value> | typeof Pending;
+    return atom((get): Loadable<Value> | Promise<Loadable<Value>> => {
+      let value: Awaited<Value> | typeof Pending | PromiseLike<Awaited<Value>>;
 
       try {
         value = get(atomWithPending);
@@ -49,7 +104,13 @@ export function loadable<Value>(anAtom: Atom<Value>): Atom<Loadable<Value>> {
       if (value === Pending) {
         return { state: 'loading' };
       }
+      if (isPromiseLike(value)) {
+        // Within `delayMs` of the first load
+        return settledLoadable<Value>(value as PromiseLike<Awaited<Value>>);
+      }
       return { state: 'hasData', data: value };
     });
-  }, anAtom);
+  };
+
+  return options ? createLoadable() : memo1(createLoadable, cache1, anAtom);
 }
@@ -0,0 +1,94 @@
+import { atom } from 'jotai/vanilla';
+import type { Atom, ExtractAtomValue } from 'jotai/vanilla';
+import type { AwaitedAll } from './eagerAtom.ts';
+import { type Loadable, loadable } from './loadable.ts';
+import { createMemoCache, memoN } from './memo.ts';
+
+const tupleCache = createMemoCache();
+const recordCache = createMemoCache();
+
+export type AwaitedRecord<T extends Record<string, Atom<unknown>>> = {
+  [K in keyof T]: Awaited<ExtractAtomValue<T[K]>>;
+};
+
+function combine<T>(loadables: Loadable<unknown>[], toData: (data: unknown[]) => T): Loadable<T> {
+  const failed = loadables.find((l) => l.state === 'hasError');
+  if (failed) {
+    return failed;
+  }
+  if (loadables.some((l) => l.state === 'loading')) {
+    return { state: 'loading' };
+  }
+  return {
+    state: 'hasData',
+    data: toData(loadables.map((l) => (l as { data: unknown }).data)) as Awaited<T>,
+  };
+}
+
+/**
+ * Combines the loadable states of many atoms into a single one. Every atom is read right
+ * away, so that none of them waits for the others to be fulfilled before starting.
+ * The result is 'hasData' once all atoms are fulfilled, 'hasError' with the first error
+ * if any of them failed, and 'loading' otherwise.
+ * Returns the same atom when called with the same atoms, just like `loadable`.
+ *
+ * @param atoms A tuple, or a record, of atoms to combine.
+ * @returns An atom that returns a Loadable of all values, in the shape of `atoms`.
+ *
+ * @example
+ * ```ts
+ * import { loadableAll } from 'jotai-eager';
+ *
+ * const pageAtom = loadableAll([userAtom, postsAtom]);
+ * // pageAtom returns: { state: 'hasData', data: [user, posts] } once both are fulfilled
+ *
+ * const namedPageAtom = loadableAll({ user: userAtom, posts: postsAtom });
+ * // namedPageAtom returns: { state: 'hasData', data: { user, posts } } once both are fulfilled
+ * ```
+ */
+export function loadableAll<T extends readonly Atom<unknown>[] | []>(
+  atoms: T,
+): Atom<Loadable<AwaitedAll<T>>>;
+
+export function loadableAll<T extends Record<string, Atom<unknown>>>(
+  atoms: T,
+): Atom<Loadable<AwaitedRecord<T>>>;
+
+export function loadableAll(
+  atoms: readonly Atom<unknown>[] | Record<string, Atom<unknown>>,
+): Atom<Loadable<unknown>> {
+  if (Array.isArray(atoms)) {
+    const tuple = atoms as readonly Atom<unknown>[];
+    return memoN(
+      () =>
+        atom((get) =>
+          combine(
+            tuple.map((a) => get(loadable(a))),
+            (data) => data,
+          ),
+        ),
+      tupleCache,
+      tuple,
+    );
+  }
+
+  const keys = Object.keys(atoms);
+  const record = atoms as Record<string, Atom<unknown>>;
+  return memoN(
+    () =>
+      atom((get) =>
+        combine(
+          keys.map((key) => get(loadable(record[key] as Atom<unknown>))),
+          (data) => {
+            const result: Record<string, unknown> = {};
+            keys.forEach((key, i) => {
+              result[key] = data[i];
+            });
+            return result;
+          },
+        ),
+      ),
+    recordCache,
+    keys.flatMap((key) => [key, record[key]]),
+  );
+}
@@ -0,0 +1,113 @@
+import { atom } from 'jotai/vanilla';
+import type { Atom } from 'jotai/vanilla';
+import { isPromiseLike } from './isPromise.ts';
+import { settledLoadable } from './loadable.ts';
+import { memo1 } from './memo.ts';
+import { type PendingTimingOptions, withPending } from './withPending.ts';
+
+const cache1 = new WeakMap();
+
+export type LoadableWithPrevious<Value> =
+  | { state: 'loading'; previous?: Awaited<Value> }
+  | { state: 'hasError'; error: unknown; previous?: Awaited<Value> }
+  | { state: 'hasData'; data: Awaited<Value> };
+
+const Pending = Symbol('The loadable is pending');
+const Failed = Symbol('The loadable has failed');
+
+type Marker<Value> =
+  | { [Pending]: true; prev: Awaited<Value> | undefined }
+  | { [Failed]: unknown; prev: Awaited<Value> | undefined };
+
+function isMarker<Value>(value: unknown): value is Marker<Value> {
+  return typeof value === 'object' && value !== null && (Pending in value || Failed in value);
+}
+
+/**
+ * Wraps an atom to provide a loadable state, just like `loadable`, except that the 'loading'
+ * and 'hasError' states carry the `previous` data, if there was any. Allows showing
+ * stale data while revalidating, or after a revalidation failed.
+ * With `delayMs`, the atom suspends on the first load until 'loading' is due, instead of flashing it.
+ *
+ * @param anAtom The atom whose value should be wrapped in a loadable state.
+ * @param options Settings to avoid a flash of the loading state, including `delayMs`, see `PendingTimingOptions`.
+ * Atoms created with options are not shared between calls, so make sure to create them once.
+ * @returns An atom that returns a LoadableWithPrevious object indicating the current state of the input atom's value,
+ * or a promise of it during `delayMs` of the first load.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { loadableWithPrevious } from 'jotai-eager';
+ *
+ * const asyncAtom = atom(async () => 'data');
+ * const loadableAtom = loadableWithPrevious(asyncAtom, { delayMs: 200 });
+ * // once refetched, loadableAtom returns: { state: 'loading', previous: 'data' }
+ * ```
+ */
+export function loadableWithPrevious<Value>(
+  anAtom: Atom<Value>,
+  options: PendingTimingOptions & { delayMs: number },
+): Atom<LoadableWithPrevious<Value> | Promise<LoadableWithPrevious<Value>>>;
+
+/**
+ * Wraps an atom to provide a loadable state, just like `loadable`, except that the 'loading'
+ * and 'hasError' states carry the `previous` data, if there was any. Allows showing
+ * stale data while revalidating, or after a revalidation failed.
+ *
+ * @param anAtom The atom whose value should be wrapped in a loadable state.
+ * @param options Optional settings to avoid a flash of the loading state, see `PendingTimingOptions`.
+ * Atoms created with options are not shared between calls, so make sure to create them once.
+ * @returns An atom that returns a LoadableWithPrevious object indicating the current state of the input atom's value.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { loadableWithPrevious } from 'jotai-eager';
+ *
+ * const asyncAtom = atom(async () => 'data');
+ * const loadableAtom = loadableWithPrevious(asyncAtom);
+ * // once refetched, loadableAtom returns: { state: 'loading', previous: 'data' }
+ * ```
+ */
+export function loadableWithPrevious<Value>(
+  anAtom: Atom<Value>,
+  options?: PendingTimingOptions,
+): Atom<LoadableWithPrevious<Value>>;
+
+export function loadableWithPrevious<Value>(
+  anAtom: Atom<Value>,
+  options?: PendingTimingOptions,
+): Atom<LoadableWithPrevious<Value> | Promise<LoadableWithPrevious<Value>>> {
+  const createLoadable = (): Atom<
+    LoadableWithPrevious<Value> | Promise<LoadableWithPrevious<Value>>
+  > => {
+    const atomWithPending = withPending(
+      anAtom,
+      ({ prev }): Marker<Value> => ({ [Pending]: true, prev }),
+      { ...options, onError: ({ prev, error }): Marker<Value> => ({ [Failed]: error, prev }) },
+    );
+    if (import.meta.env?.MODE !== 'production') {
+      atomWithPending.debugPrivate = true;
+    }
+
+    return atom((get): LoadableWithPrevious<Value> | Promise<LoadableWithPrevious<Value>> => {
+      const value: unknown = get(atomWithPending);
+
+      if (isPromiseLike(value)) {
+        // Within `delayMs` of the first load, so there is no previous data either way
+        return settledLoadable<Value>(value as PromiseLike<Awaited<Value>>);
+      }
+      if (!isMarker<Value>(value)) {
+        return { state: 'hasData', data: value as Awaited<Value> };
+      }
+      const previous = value.prev !== undefined ? { previous: value.prev } : {};
+      if (Failed in value) {
+        return { state: 'hasError', error: value[Failed], ...previous };
+      }
+      return { state: 'loading', ...previous };
+    });
+  };
+
+  return options ? createLoadable() : memo1(createLoadable, cache1, anAtom);
+}
@@ -0,0 +1,41 @@
+export interface MemoCache {
+  readonly weak: WeakMap<object, MemoCache>;
+  readonly strong: Map<unknown, MemoCache>;
+  value?: unknown;
+}
+
+export const createMemoCache = (): MemoCache => ({ weak: new WeakMap(), strong: new Map() });
+
+const isWeakKey = (dep: unknown): dep is object =>
+  (typeof dep === 'object' && dep !== null) || typeof dep === 'function';
+
+/**
+ * Returns the value created for `dep1` in `cache`, creating it first if there is none yet.
+ */
+export const memo1 = <T>(create: () => T, cache: WeakMap<object, T>, dep1: object): T =>
+  (cache.has(dep1) ? cache : cache.set(dep1, create())).get(dep1) as T;
+
+/**
+ * Like `memo1`, but for any number of deps. Objects are held weakly, while
+ * primitives (like keys of a record) are held strongly.
+ */
+export const memoN = <T>(create: () => T, cache: MemoCache, deps: readonly unknown[]): T => {
+  let node = cache;
+  for (const dep of deps) {
+    const isWeak = isWeakKey(dep);
+    let child = isWeak ? node.weak.get(dep) : node.strong.get(dep);
+    if (!child) {
+      child = createMemoCache();
+      if (isWeak) {
+        node.weak.set(dep, child);
+      } else {
+        node.strong.set(dep, child);
+      }
+    }
+    node = child;
+  }
+  if (!('value' in node)) {
+    node.value = create();
+  }
+  return node.value as T;
+};
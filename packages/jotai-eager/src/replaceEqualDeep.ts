@@ -0,0 +1,41 @@
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Returns `next`, but with every subtree that is deeply equal to the corresponding
+ * subtree of `prev` replaced by the one from `prev`. If the whole of `next` is deeply
+ * equal to `prev`, then `prev` itself is returned.
+ * Only plain objects and arrays are traversed, everything else is compared by reference.
+ */
+export function replaceEqualDeep<T>(prev: unknown, next: T): T {
+  if (Object.is(prev, next)) {
+    return prev as T;
+  }
+
+  const isArray = Array.isArray(prev) && Array.isArray(next);
+  if (!isArray && !(isPlainObject(prev) && isPlainObject(next))) {
+    return next;
+  }
+
+  const prevRecord = prev as Record<string, unknown>;
+  const nextRecord = next as Record<string, unknown>;
+  const prevKeys = Object.keys(prevRecord);
+  const nextKeys = Object.keys(nextRecord);
+  const copy = (isArray ? [] : {}) as Record<string, unknown>;
+  let equalItems = 0;
+
+  for (const key of nextKeys) {
+    const item = replaceEqualDeep(prevRecord[key], nextRecord[key]);
+    copy[key] = item;
+    if (Object.is(item, prevRecord[key]) && Object.prototype.hasOwnProperty.call(prevRecord, key)) {
+      equalItems++;
+    }
+  }
+
+  return (prevKeys.length === nextKeys.length && equalItems === prevKeys.length ? prev : copy) as T;
+}
@@ -1,4 +1,4 @@
-import { getPromiseMeta, setPromiseMeta } from './isPromise.ts';
+import { getPromiseMeta, rejectedPromise, setPromiseMeta } from './isPromise.ts';
 
 /**
  * Executes `handler` with `data` as input synchronously if `data` is known, meaning
@@ -76,7 +76,7 @@ function _soonImpl<TInput, TOutput>(
       // To keep the error handling behavior consistent, lets
       // always return a rejected promise, even if the processing
       // can be done in sync.
-      return Promise.reject(meta.reason);
+      return rejectedPromise(meta.reason);
     }
 
     const promise = data as Promise<Awaited<TInput>>;
@@ -100,6 +100,6 @@ function _soonImpl<TInput, TOutput>(
     // To keep the error handling behavior consistent, lets
     // always return a rejected promise, even if the processing
     // can be done in sync.
-    return Promise.reject(err);
+    return rejectedPromise(err);
   }
 }
@@ -1,4 +1,4 @@
-import { getFulfilledValue, isKnown, isPromiseLike, setPromiseMeta } from './isPromise.ts';
+import { getFulfilledValue, isKnown, isPromiseLike, trackPromise } from './isPromise.ts';
 
 type PromiseOrValue<T> = Promise<T> | T;
 
@@ -29,13 +29,11 @@ export function soonAll<T extends readonly unknown[]>(values: T): SoonAll<T> {
     return values.map((el) => getFulfilledValue(el)) as unknown as SoonAll<T>;
   }
 
-  return Promise.all(values).then((fulfilledValues) => {
-    fulfilledValues.map((fulfilled, idx) => {
-      const promise = values[idx];
-      if (isPromiseLike(promise)) {
-        setPromiseMeta(promise, { status: 'fulfilled', value: fulfilled });
-      }
-    });
-    return fulfilledValues;
-  });
+  // Recording rejections too, so that a failed promise is known to have failed from then on
+  for (const value of values) {
+    if (isPromiseLike(value)) {
+      trackPromise(value);
+    }
+  }
+  return Promise.all(values) as SoonAll<T>;
 }
@@ -0,0 +1,63 @@
+import { type Settled, getPromiseMeta, isPromiseLike, trackPromise } from './isPromise.ts';
+
+type PromiseOrValue<T> = Promise<T> | T;
+
+type SoonAllSettled<T extends readonly unknown[]> = PromiseOrValue<{
+  [Index in keyof T]: Settled<Awaited<T[Index]>>;
+}>;
+
+function toSettled(value: unknown): Settled<unknown> {
+  const meta = getPromiseMeta(value);
+  if (!meta) {
+    // Not a promise
+    return { status: 'fulfilled', value };
+  }
+  if (meta.status === 'rejected') {
+    return { status: 'rejected', reason: meta.reason };
+  }
+  return { status: 'fulfilled', value: (meta as { value: unknown }).value };
+}
+
+/**
+ * Given array `values`, if all elements are settled (are not pending promises), returns an
+ * array of the same length describing the outcome of each element, like `Promise.allSettled`
+ * does. Otherwise, it returns a promise to that array.
+ *
+ * @param values An array of values or promises to await collectively, without failing on rejections.
+ * @returns An array of outcomes if all elements are settled, or a promise resolving to that array if any are pending.
+ *
+ * @example
+ * ```ts
+ * import { soonAllSettled } from 'jotai-eager';
+ *
+ * const values = [Promise.resolve(1), Promise.reject(new Error('Oops'))];
+ * const result = soonAllSettled(values);
+ * // [{ status: 'fulfilled', value: 1 }, { status: 'rejected', reason: Error('Oops') }] or a Promise of it
+ * ```
+ */
+export function soonAllSettled<T extends readonly unknown[] | []>(values: T): SoonAllSettled<T>;
+export function soonAllSettled<T extends readonly unknown[]>(values: T): SoonAllSettled<T>;
+export function soonAllSettled<T extends readonly unknown[]>(values: T): SoonAllSettled<T> {
+  // Handling every rejection, just like `Promise.allSettled` would
+  for (const value of values) {
+    if (isPromiseLike(value)) {
+      trackPromise(value);
+    }
+  }
+
+  if (values.every((value) => getPromiseMeta(value)?.status !== 'pending')) {
+    return values.map(toSettled) as unknown as SoonAllSettled<T>;
+  }
+
+  return Promise.all(
+    values.map((value) =>
+      // Reading the outcome back from the meta cache, once it's been recorded
+      isPromiseLike(value)
+        ? value.then(
+            () => toSettled(value),
+            () => toSettled(value),
+          )
+        : toSettled(value),
+    ),
+  ) as SoonAllSettled<T>;
+}
@@ -0,0 +1,75 @@
+import {
+  aggregateError,
+  getPromiseMeta,
+  isPromiseLike,
+  rejectedPromise,
+  trackPromise,
+} from './isPromise.ts';
+
+type PromiseOrValue<T> = Promise<T> | T;
+
+type SoonAny<T extends readonly unknown[]> = PromiseOrValue<Awaited<T[number]>>;
+
+/**
+ * Given array `values`, returns the first element that is known (is not an unresolved promise),
+ * like `Promise.any`. If all of them are rejected, it returns a promise rejected with an
+ * `AggregateError` of all reasons. Otherwise, it returns a promise of the first element to fulfill.
+ *
+ * @param values An array of values or promises, of which one is enough.
+ * @returns The first fulfilled value, a rejected promise if all failed, or a promise of the first one to fulfill if any are pending.
+ *
+ * @example
+ * ```ts
+ * import { soonAny } from 'jotai-eager';
+ *
+ * const result = soonAny([fetchFromPrimary(), fetchFromMirror()]);
+ * ```
+ */
+export function soonAny<T extends readonly unknown[] | []>(values: T): SoonAny<T>;
+export function soonAny<T extends readonly unknown[]>(values: T): SoonAny<T>;
+export function soonAny<T extends readonly unknown[]>(values: T): SoonAny<T> {
+  // Handling every rejection, just like `Promise.any` would
+  for (const value of values) {
+    if (isPromiseLike(value)) {
+      trackPromise(value);
+    }
+  }
+
+  const reasons: unknown[] = [];
+  let isPending = false;
+  for (const value of values) {
+    const meta = getPromiseMeta(value);
+    if (!meta) {
+      // Not a promise
+      return value as SoonAny<T>;
+    }
+    if (meta.status === 'fulfilled') {
+      return meta.value as SoonAny<T>;
+    }
+    if (meta.status === 'rejected') {
+      reasons.push(meta.reason);
+    } else {
+      isPending = true;
+    }
+  }
+
+  if (!isPending) {
+    return rejectedPromise(aggregateError(reasons, 'All promises were rejected'));
+  }
+
+  // `Promise.any` is not part of the ES2018 standard library. Every element is
+  // a promise by now, as any other value would have been returned right away.
+  return new Promise((resolve, reject) => {
+    const asyncReasons: unknown[] = [];
+    let remaining = values.length;
+    values.forEach((value, idx) => {
+      (value as PromiseLike<unknown>).then(resolve as (value: unknown) => void, (reason) => {
+        asyncReasons[idx] = reason;
+        remaining -= 1;
+        if (remaining === 0) {
+          reject(aggregateError(asyncReasons, 'All promises were rejected'));
+        }
+      });
+    });
+  });
+}
@@ -0,0 +1,98 @@
+import { getPromiseMeta, rejectedPromise, setPromiseMeta } from './isPromise.ts';
+
+/**
+ * Recovers from `data` being rejected by running `onRejected`, synchronously if `data` is
+ * already known to be rejected. Known values are passed through as-is, which means that
+ * a successful synchronous recovery results in a plain value instead of a promise.
+ *
+ * @param data The data that could be rejected, now or later (soon).
+ * @param onRejected The recovery function that takes the rejection reason and returns a replacement.
+ * @returns The known value or the synchronous replacement, or a promise of either if data is pending.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { soonCatch } from 'jotai-eager';
+ *
+ * const userAtom = atom(fetchUser());
+ * const userOrGuestAtom = atom((get) => soonCatch(get(userAtom), () => guestUser));
+ * ```
+ */
+export function soonCatch<TInput, TOutput>(
+  data: TInput,
+  onRejected: (reason: unknown) => TOutput,
+): Awaited<TInput> | TOutput | Promise<Awaited<TInput> | Awaited<TOutput>>;
+
+/**
+ * Recovers from `data` being rejected by running `onRejected`, synchronously if `data` is
+ * already known to be rejected. Known values are passed through as-is, which means that
+ * a successful synchronous recovery results in a plain value instead of a promise.
+ *
+ * @param onRejected The recovery function that takes the rejection reason and returns a replacement.
+ * @returns A function that can be called with `data`, and returns the known value or the replacement (or a promise of either).
+ *
+ * @example
+ * ```ts
+ * import { soonCatch } from 'jotai-eager';
+ *
+ * const orGuest = soonCatch(() => guestUser);
+ * const userOrGuest = orGuest(fetchUser()); // Promise<User> or User
+ * ```
+ */
+export function soonCatch<TInput, TOutput>(
+  onRejected: (reason: unknown) => TOutput,
+): (data: TInput) => Awaited<TInput> | TOutput | Promise<Awaited<TInput> | Awaited<TOutput>>;
+
+export function soonCatch<TInput, TOutput>(
+  first: TInput | ((reason: unknown) => TOutput),
+  second?: (reason: unknown) => TOutput,
+): unknown {
+  if (second) {
+    // data-first
+    return _soonCatchImpl(first as TInput, second);
+  }
+
+  // data-last
+  return (data: TInput) => {
+    return _soonCatchImpl(data, first as (reason: unknown) => TOutput);
+  };
+}
+
+function _soonCatchImpl<TInput, TOutput>(
+  data: TInput,
+  onRejected: (reason: unknown) => TOutput,
+): Awaited<TInput> | TOutput | Promise<Awaited<TInput> | Awaited<TOutput>> {
+  const meta = getPromiseMeta<Awaited<TInput>>(data);
+
+  if (!meta) {
+    return data as Awaited<TInput>;
+  }
+
+  if (meta.status === 'fulfilled') {
+    return meta.value;
+  }
+
+  if (meta.status === 'rejected') {
+    // The rejection is handled from now on
+    (data as PromiseLike<unknown>).then(undefined, () => {});
+    try {
+      return onRejected(meta.reason);
+    } catch (err) {
+      // Just like in `soon`, failing is always signaled with a rejected promise
+      return rejectedPromise(err);
+    }
+  }
+
+  const promise = data as Promise<Awaited<TInput>>;
+
+  return promise.then(
+    (value) => {
+      setPromiseMeta(promise, { status: 'fulfilled', value });
+      return value;
+    },
+    (reason) => {
+      setPromiseMeta(promise, { status: 'rejected', reason });
+      return onRejected(reason) as Awaited<TOutput>;
+    },
+  );
+}
@@ -0,0 +1,90 @@
+import { getPromiseMeta, rejectedPromise, setPromiseMeta } from './isPromise.ts';
+
+/**
+ * Runs `onSettled` once `data` is settled, no matter if it's fulfilled or rejected, synchronously
+ * if `data` is already known. The outcome of `data` is passed through, unless `onSettled` throws,
+ * in which case a promise rejected with that error is returned instead.
+ *
+ * @param data The data to wait for, now or later (soon).
+ * @param onSettled The function to run once data is settled.
+ * @returns The known value, a rejected promise if data is known to be rejected, or a promise of the value if data is pending.
+ *
+ * @example
+ * ```ts
+ * import { soonFinally } from 'jotai-eager';
+ *
+ * const user = soonFinally(fetchUser(), () => stopSpinner());
+ * ```
+ */
+export function soonFinally<TInput>(
+  data: TInput,
+  onSettled: () => void,
+): Awaited<TInput> | Promise<Awaited<TInput>>;
+
+/**
+ * Runs `onSettled` once `data` is settled, no matter if it's fulfilled or rejected, synchronously
+ * if `data` is already known. The outcome of `data` is passed through, unless `onSettled` throws,
+ * in which case a promise rejected with that error is returned instead.
+ *
+ * @param onSettled The function to run once data is settled.
+ * @returns A function that can be called with `data`, and returns the known value (or a promise of the value).
+ *
+ * @example
+ * ```ts
+ * import { soonFinally } from 'jotai-eager';
+ *
+ * const withSpinner = soonFinally(() => stopSpinner());
+ * const user = withSpinner(fetchUser()); // Promise<User> or User
+ * ```
+ */
+export function soonFinally<TInput>(
+  onSettled: () => void,
+): (data: TInput) => Awaited<TInput> | Promise<Awaited<TInput>>;
+
+export function soonFinally<TInput>(first: TInput | (() => void), second?: () => void): unknown {
+  if (second) {
+    // data-first
+    return _soonFinallyImpl(first as TInput, second);
+  }
+
+  // data-last
+  return (data: TInput) => {
+    return _soonFinallyImpl(data, first as () => void);
+  };
+}
+
+function _soonFinallyImpl<TInput>(
+  data: TInput,
+  onSettled: () => void,
+): Awaited<TInput> | Promise<Awaited<TInput>> {
+  const meta = getPromiseMeta<Awaited<TInput>>(data);
+
+  if (meta?.status === 'pending') {
+    const promise = data as Promise<Awaited<TInput>>;
+
+    return promise.then(
+      (value) => {
+        setPromiseMeta(promise, { status: 'fulfilled', value });
+        onSettled();
+        return value;
+      },
+      (reason) => {
+        setPromiseMeta(promise, { status: 'rejected', reason });
+        onSettled();
+        throw reason;
+      },
+    );
+  }
+
+  try {
+    onSettled();
+  } catch (err) {
+    // Just like in `soon`, failing is always signaled with a rejected promise
+    return rejectedPromise(err);
+  }
+
+  if (meta?.status === 'rejected') {
+    return data as Promise<Awaited<TInput>>;
+  }
+  return meta ? meta.value : (data as Awaited<TInput>);
+}
@@ -0,0 +1,109 @@
+import { isPromiseLike, trackPromise } from './isPromise.ts';
+import { soon } from './soon.ts';
+
+/**
+ * Passes `data` through every function in order, each one running synchronously if its
+ * input is known, meaning it is not an unresolved promise of the value. A readable
+ * alternative to nesting calls to `soon`.
+ * Every intermediate promise is registered in the Promise cache shared between all
+ * jotai-eager APIs, so its value is known right away once it has been awaited.
+ *
+ * @param data The data to process, now or later (soon).
+ * @param fns The processing functions, each taking the awaited result of the previous one.
+ * @returns The result of the last function if every step could run synchronously, or a promise of the result otherwise.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { soonPipe } from 'jotai-eager';
+ *
+ * const greetingAtom = atom((get) =>
+ *   soonPipe(
+ *     get(userIdAtom),
+ *     (id) => get(userAtomFamily(id)),
+ *     (user) => user.name,
+ *     (name) => `Hello, ${name}!`,
+ *   ),
+ * );
+ * ```
+ */
+export function soonPipe<T, A>(data: T, f1: (value: Awaited<T>) => A): A | Promise<Awaited<A>>;
+export function soonPipe<T, A, B>(
+  data: T,
+  f1: (value: Awaited<T>) => A,
+  f2: (value: Awaited<A>) => B,
+): B | Promise<Awaited<B>>;
+export function soonPipe<T, A, B, C>(
+  data: T,
+  f1: (value: Awaited<T>) => A,
+  f2: (value: Awaited<A>) => B,
+  f3: (value: Awaited<B>) => C,
+): C | Promise<Awaited<C>>;
+export function soonPipe<T, A, B, C, D>(
+  data: T,
+  f1: (value: Awaited<T>) => A,
+  f2: (value: Awaited<A>) => B,
+  f3: (value: Awaited<B>) => C,
+  f4: (value: Awaited<C>) => D,
+): D | Promise<Awaited<D>>;
+export function soonPipe<T, A, B, C, D, E>(
+  data: T,
+  f1: (value: Awaited<T>) => A,
+  f2: (value: Awaited<A>) => B,
+  f3: (value: Awaited<B>) => C,
+  f4: (value: Awaited<C>) => D,
+  f5: (value: Awaited<D>) => E,
+): E | Promise<Awaited<E>>;
+export function soonPipe<T, A, B, C, D, E, F>(
+  data: T,
+  f1: (value: Awaited<T>) => A,
+  f2: (value: Awaited<A>) => B,
+  f3: (value: Awaited<B>) => C,
+  f4: (value: Awaited<C>) => D,
+  f5: (value: Awaited<D>) => E,
+  f6: (value: Awaited<E>) => F,
+): F | Promise<Awaited<F>>;
+export function soonPipe<T, A, B, C, D, E, F, G>(
+  data: T,
+  f1: (value: Awaited<T>) => A,
+  f2: (value: Awaited<A>) => B,
+  f3: (value: Awaited<B>) => C,
+  f4: (value: Awaited<C>) => D,
+  f5: (value: Awaited<D>) => E,
+  f6: (value: Awaited<E>) => F,
+  f7: (value: Awaited<F>) => G,
+): G | Promise<Awaited<G>>;
+export function soonPipe<T, A, B, C, D, E, F, G, H>(
+  data: T,
+  f1: (value: Awaited<T>) => A,
+  f2: (value: Awaited<A>) => B,
+  f3: (value: Awaited<B>) => C,
+  f4: (value: Awaited<C>) => D,
+  f5: (value: Awaited<D>) => E,
+  f6: (value: Awaited<E>) => F,
+  f7: (value: Awaited<F>) => G,
+  f8: (value: Awaited<G>) => H,
+): H | Promise<Awaited<H>>;
+export function soonPipe<T, A, B, C, D, E, F, G, H, I>(
+  data: T,
+  f1: (value: Awaited<T>) => A,
+  f2: (value: Awaited<A>) => B,
+  f3: (value: Awaited<B>) => C,
+  f4: (value: Awaited<C>) => D,
+  f5: (value: Awaited<D>) => E,
+  f6: (value: Awaited<E>) => F,
+  f7: (value: Awaited<F>) => G,
+  f8: (value: Awaited<G>) => H,
+  f9: (value: Awaited<H>) => I,
+): I | Promise<Awaited<I>>;
+
+export function soonPipe(data: unknown, ...fns: ((value: unknown) => unknown)[]): unknown {
+  let result = data;
+  for (const fn of fns) {
+    result = soon(result, fn);
+    if (isPromiseLike(result)) {
+      trackPromise(result);
+    }
+  }
+  return result;
+}
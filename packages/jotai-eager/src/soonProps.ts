@@ -0,0 +1,44 @@
+import { isPromiseLike } from './isPromise.ts';
+import { soonAll } from './soonAll.ts';
+
+type PromiseOrValue<T> = Promise<T> | T;
+
+type SoonProps<T extends object> = PromiseOrValue<{
+  [Key in keyof T]: Awaited<T[Key]>;
+}>;
+
+/**
+ * Given record `values`, if all of its entries are known (are not unresolved promises),
+ * returns a record with the same keys and Awaited `values`. Otherwise, it returns a
+ * promise to that record.
+ *
+ * @param values A record of values or promises to await collectively.
+ * @returns A record of the awaited values if all are resolved synchronously, or a promise resolving to that record if any are pending.
+ *
+ * @example
+ * ```ts
+ * import { soonProps } from 'jotai-eager';
+ *
+ * const values = { user: fetchUser(), permissions: fetchPermissions(), theme: 'dark' };
+ * const result = soonProps(values); // { user, permissions, theme } or Promise<{ user, permissions, theme }>
+ * ```
+ */
+export function soonProps<T extends object>(values: T): SoonProps<T> {
+  const record = values as Record<PropertyKey, unknown>;
+  const keys = Reflect.ownKeys(record).filter((key) =>
+    Object.prototype.propertyIsEnumerable.call(record, key),
+  );
+  const toRecord = (fulfilledValues: readonly unknown[]) => {
+    const result: Record<PropertyKey, unknown> = {};
+    keys.forEach((key, idx) => {
+      result[key] = fulfilledValues[idx];
+    });
+    return result as Awaited<SoonProps<T>>;
+  };
+
+  const fulfilledValues = soonAll(keys.map((key) => record[key]));
+  if (isPromiseLike(fulfilledValues)) {
+    return fulfilledValues.then(toRecord);
+  }
+  return toRecord(fulfilledValues);
+}
@@ -0,0 +1,47 @@
+import { getPromiseMeta, isPromiseLike, rejectedPromise, trackPromise } from './isPromise.ts';
+
+type PromiseOrValue<T> = Promise<T> | T;
+
+type SoonRace<T extends readonly unknown[]> = PromiseOrValue<Awaited<T[number]>>;
+
+/**
+ * Given array `values`, returns the outcome of the first element that is settled (is not a
+ * pending promise), the same way `Promise.race` would pick the first of the already settled
+ * promises. If none of them are, it returns a promise that settles just like the first one to do so.
+ *
+ * @param values An array of values or promises to race.
+ * @returns The first settled value, a rejected promise if it failed, or a promise of the first one to settle if all are pending.
+ *
+ * @example
+ * ```ts
+ * import { soonRace } from 'jotai-eager';
+ *
+ * const result = soonRace([fetchFromPrimary(), fetchFromMirror()]);
+ * ```
+ */
+export function soonRace<T extends readonly unknown[] | []>(values: T): SoonRace<T>;
+export function soonRace<T extends readonly unknown[]>(values: T): SoonRace<T>;
+export function soonRace<T extends readonly unknown[]>(values: T): SoonRace<T> {
+  // Handling every rejection, just like `Promise.race` would
+  for (const value of values) {
+    if (isPromiseLike(value)) {
+      trackPromise(value);
+    }
+  }
+
+  for (const value of values) {
+    const meta = getPromiseMeta(value);
+    if (!meta) {
+      // Not a promise
+      return value as SoonRace<T>;
+    }
+    if (meta.status === 'fulfilled') {
+      return meta.value as SoonRace<T>;
+    }
+    if (meta.status === 'rejected') {
+      return rejectedPromise(meta.reason);
+    }
+  }
+
+  return Promise.race(values) as SoonRace<T>;
+}
@@ -11,6 +11,181 @@ export interface WithPendingContext<Value> {
   pending: PromiseLike<Awaited<Value>>;
 }
 
+export interface WithPendingErrorContext<Value> {
+  get: Getter;
+  prev: Awaited<Value> | undefined;
+  error: unknown;
+}
+
+export interface PendingTimingOptions {
+  /**
+   * For how long to stay on the previous value once a new one is pending, before
+   * switching to the fallback. Responses faster than that never show the fallback.
+   * Without a previous value, the atom keeps suspending for that long instead.
+   * @default 0
+   */
+  delayMs?: number;
+  /**
+   * For how long to keep showing the fallback once it's shown, even if the new
+   * value arrives earlier. Avoids the fallback flashing for just a moment.
+   * @default 0
+   */
+  minDurationMs?: number;
+}
+
+export interface WithPendingOptions<Value, ErrorValue> extends PendingTimingOptions {
+  /**
+   * Called when the atom fails, instead of rethrowing the error. Returns a value
+   * to use in place of the failed one, for example the previous value.
+   */
+  onError?: (ctx: WithPendingErrorContext<Value>) => ErrorValue;
+}
+
+type PromiseAndValue<Value, PendingValue, ErrorValue = never> = {
+  readonly p?: PromiseLike<unknown>;
+  /** Since when the promise has been pending */
+  readonly t?: number | undefined;
+  /** Since when the fallback has been shown */
+  readonly s?: number | undefined;
+} & (
+  | { readonly v: Awaited<Value> }
+  | { readonly f: PendingValue; readonly v?: Awaited<Value> }
+  | { readonly r: ErrorValue; readonly v?: Awaited<Value> }
+  /** Within `delayMs`, with no previous value to stay on */
+  | { readonly d: true; readonly v?: undefined }
+);
+
+/**
+ * Keeps track of the latest promise of `anAtom`, along with the last known value, which
+ * lets `withPending` and `withPendingState` present it in different ways.
+ */
+function createPromiseAndValueAtom<Value, PendingValue, ErrorValue = never>(
+  anAtom: Atom<Value>,
+  fallback: (ctx: WithPendingContext<Value>) => PendingValue,
+  options?: WithPendingOptions<Value, ErrorValue>,
+): Atom<PromiseAndValue<Value, PendingValue, ErrorValue>> {
+  type State = PromiseAndValue<Value, PendingValue, ErrorValue>;
+  const { onError, delayMs = 0, minDurationMs = 0 } = options ?? {};
+  const refreshAtom = atom(0);
+
+  if (import.meta.env?.MODE !== 'production') {
+    refreshAtom.debugPrivate = true;
+  }
+
+  const promiseAndValueAtom: WritableAtom<State, [], void> & {
+    init?: undefined;
+  } = atom(
+    (get, { setSelf }) => {
+      get(refreshAtom);
+      const prev = get(promiseAndValueAtom) as State | undefined;
+      const rescue = (error: unknown, promise?: PromiseLike<unknown>): State => {
+        if (!onError) {
+          throw error;
+        }
+        // Holding onto the last good value, as the next fallback might want it
+        return {
+          p: promise,
+          r: onError({ get, prev: prev?.v, error }),
+          ...(prev && 'v' in prev && { v: prev.v }),
+        } as State;
+      };
+      const settle = (state: State): State => {
+        if (prev && 'f' in prev && prev.s !== undefined) {
+          const remaining = prev.s + minDurationMs - Date.now();
+          if (remaining > 0) {
+            // Keeping the fallback around for a little longer, so that it does not flash
+            setTimeout(() => setSelf(), remaining);
+            return prev;
+          }
+        }
+        return state;
+      };
+
+      let promise: Value;
+      try {
+        promise = get(anAtom);
+      } catch (error) {
+        return rescue(error);
+      }
+      if (!isPromiseLike(promise)) {
+        return settle({ v: promise as Awaited<Value> } as State);
+      }
+      const meta = getPromiseMeta(promise);
+      if (meta?.status === 'fulfilled') {
+        return settle({ p: promise, v: meta.value } as State);
+      }
+      if (meta?.status === 'rejected') {
+        return rescue(meta.reason, promise);
+      }
+
+      const isNewPromise = promise !== prev?.p;
+      if (isNewPromise) {
+        promise.then(
+          (value) => {
+            setPromiseMeta(promise, { status: 'fulfilled', value });
+            setSelf();
+          },
+          (reason) => {
+            setPromiseMeta(promise, { status: 'rejected', reason });
+            setSelf();
+          },
+        );
+        if (delayMs > 0) {
+          // Checking back once the fallback is due
+          setTimeout(() => setSelf(), delayMs);
+        }
+      }
+
+      const now = Date.now();
+      const pendingSince = !isNewPromise && prev?.t !== undefined ? prev.t : now;
+      const isDelayed = now - pendingSince < delayMs;
+      if (isDelayed) {
+        if (prev && 'v' in prev) {
+          return { p: promise, t: pendingSince, v: prev.v } as State;
+        }
+        // Nothing to stay on yet, so suspending until the fallback is due
+        return { p: promise, t: pendingSince, d: true } as State;
+      }
+      const shownSince = prev && 'f' in prev && prev.s !== undefined ? prev.s : now;
+
+      if (prev && 'v' in prev) {
+        return {
+          p: promise,
+          t: pendingSince,
+          s: shownSince,
+          f: fallback({
+            get,
+            prev: prev.v,
+            pending: promise as PromiseLike<Awaited<Value>>,
+          }),
+          v: prev.v,
+        } as State;
+      }
+      return {
+        p: promise,
+        t: pendingSince,
+        s: shownSince,
+        f: fallback({
+          get,
+          prev: undefined,
+          pending: promise as PromiseLike<Awaited<Value>>,
+        }),
+      } as State;
+    },
+    (_get, set) => {
+      set(refreshAtom, (c) => c + 1);
+    },
+  );
+  // HACK to read PromiseAndValue atom before initialization
+  promiseAndValueAtom.init = undefined;
+
+  if (import.meta.env?.MODE !== 'production') {
+    promiseAndValueAtom.debugPrivate = true;
+  }
+
+  return promiseAndValueAtom;
+}
+
 /**
  * Wraps an atom to handle pending states by returning a fallback value while the atom's value is unresolved, optionally using a custom fallback function.
  * Intended as an alternative to Jotai's `unwrap`, providing enhanced pending state handling.
@@ -32,12 +207,45 @@ export function withPending<Value, Args extends unknown[], Result>(
   anAtom: WritableAtom<Value, Args, Result>,
 ): WritableAtom<Awaited<Value> | undefined, Args, Result>;
 
+/**
+ * Wraps an atom to handle pending states by returning a fallback value while the atom's value is unresolved, optionally using a custom fallback function.
+ * Intended as an alternative to Jotai's `unwrap`, providing enhanced pending state handling.
+ * With `delayMs`, the atom suspends on the first load until the fallback is due, as there is no previous value to stay on.
+ *
+ * @param anAtom The atom to wrap, which may resolve asynchronously.
+ * @param fallback A function that receives context (getter, previous value, pending promise) and returns a value to use while pending.
+ * @param options Settings including `delayMs`, see `WithPendingOptions`.
+ * @returns An atom that returns the resolved value, the fallback while pending, or the pending promise during `delayMs` of the first load.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { withPending } from 'jotai-eager';
+ *
+ * const asyncAtom = atom(Promise.resolve('data'));
+ * const wrappedAtom = withPending(asyncAtom, () => 'Loading...', { delayMs: 200 });
+ * // wrappedAtom returns a Promise for the first 200ms, then 'Loading...' until 'data' arrives
+ * ```
+ */
+export function withPending<
+  Value,
+  Args extends unknown[],
+  Result,
+  PendingValue,
+  ErrorValue = never,
+>(
+  anAtom: WritableAtom<Value, Args, Result>,
+  fallback: (ctx: WithPendingContext<Value>) => PendingValue,
+  options: WithPendingOptions<Value, ErrorValue> & { delayMs: number },
+): WritableAtom<Awaited<Value> | PendingValue | ErrorValue | Promise<Awaited<Value>>, Args, Result>;
+
 /**
  * Wraps an atom to handle pending states by returning a fallback value while the atom's value is unresolved, optionally using a custom fallback function.
  * Intended as an alternative to Jotai's `unwrap`, providing enhanced pending state handling.
  *
  * @param anAtom The atom to wrap, which may resolve asynchronously.
  * @param fallback A function that receives context (getter, previous value, pending promise) and returns a value to use while pending.
+ * @param options Optional settings, see `WithPendingOptions`.
  * @returns An atom that returns the resolved value or the fallback while pending.
  *
  * @example
@@ -50,10 +258,17 @@ export function withPending<Value, Args extends unknown[], Result>(
  * // wrappedAtom returns 'data' when resolved, or 'Loading...' while pending
  * ```
  */
-export function withPending<Value, Args extends unknown[], Result, PendingValue>(
+export function withPending<
+  Value,
+  Args extends unknown[],
+  Result,
+  PendingValue,
+  ErrorValue = never,
+>(
   anAtom: WritableAtom<Value, Args, Result>,
   fallback: (ctx: WithPendingContext<Value>) => PendingValue,
-): WritableAtom<Awaited<Value> | PendingValue, Args, Result>;
+  options?: WithPendingOptions<Value, ErrorValue>,
+): WritableAtom<Awaited<Value> | PendingValue | ErrorValue, Args, Result>;
 
 /**
  * Wraps an atom to handle pending states by returning a fallback value while the atom's value is unresolved, optionally using a custom fallback function.
@@ -74,12 +289,39 @@ export function withPending<Value, Args extends unknown[], Result, PendingValue>
  */
 export function withPending<Value>(anAtom: Atom<Value>): Atom<Awaited<Value> | undefined>;
 
+/**
+ * Wraps an atom to handle pending states by returning a fallback value while the atom's value is unresolved, optionally using a custom fallback function.
+ * Intended as an alternative to Jotai's `unwrap`, providing enhanced pending state handling.
+ * With `delayMs`, the atom suspends on the first load until the fallback is due, as there is no previous value to stay on.
+ *
+ * @param anAtom The atom to wrap, which may resolve asynchronously.
+ * @param fallback A function that receives context (getter, previous value, pending promise) and returns a value to use while pending.
+ * @param options Settings including `delayMs`, see `WithPendingOptions`.
+ * @returns An atom that returns the resolved value, the fallback while pending, or the pending promise during `delayMs` of the first load.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { withPending } from 'jotai-eager';
+ *
+ * const asyncAtom = atom(Promise.resolve('data'));
+ * const wrappedAtom = withPending(asyncAtom, () => 'Loading...', { delayMs: 200 });
+ * // wrappedAtom returns a Promise for the first 200ms, then 'Loading...' until 'data' arrives
+ * ```
+ */
+export function withPending<Value, PendingValue, ErrorValue = never>(
+  anAtom: Atom<Value>,
+  fallback: (ctx: WithPendingContext<Value>) => PendingValue,
+  options: WithPendingOptions<Value, ErrorValue> & { delayMs: number },
+): Atom<Awaited<Value> | PendingValue | ErrorValue | Promise<Awaited<Value>>>;
+
 /**
  * Wraps an atom to handle pending states by returning a fallback value while the atom's value is unresolved, optionally using a custom fallback function.
  * Intended as an alternative to Jotai's `unwrap`, providing enhanced pending state handling.
  *
  * @param anAtom The atom to wrap, which may resolve asynchronously.
  * @param fallback A function that receives context (getter, previous value, pending promise) and returns a value to use while pending.
+ * @param options Optional settings, see `WithPendingOptions`.
  * @returns An atom that returns the resolved value or the fallback while pending.
  *
  * @example
@@ -92,95 +334,134 @@ export function withPending<Value>(anAtom: Atom<Value>): Atom<Awaited<Value> | u
  * // wrappedAtom returns 'data' when resolved, or 'Loading...' while pending
  * ```
  */
-export function withPending<Value, PendingValue>(
+export function withPending<Value, PendingValue, ErrorValue = never>(
   anAtom: Atom<Value>,
   fallback: (ctx: WithPendingContext<Value>) => PendingValue,
-): Atom<Awaited<Value> | PendingValue>;
+  options?: WithPendingOptions<Value, ErrorValue>,
+): Atom<Awaited<Value> | PendingValue | ErrorValue>;
 
-export function withPending<Value, Args extends unknown[], Result, PendingValue>(
+export function withPending<
+  Value,
+  Args extends unknown[],
+  Result,
+  PendingValue,
+  ErrorValue = never,
+>(
   anAtom: WritableAtom<Value, Args, Result> | Atom<Value>,
   fallback: (ctx: WithPendingContext<Value>) => PendingValue = defaultFallback as never,
+  options?: WithPendingOptions<Value, ErrorValue>,
 ) {
-  type PromiseAndValue = { readonly p?: PromiseLike<unknown> } & (
-    | { readonly v: Awaited<Value> }
-    | { readonly f: PendingValue; readonly v?: Awaited<Value> }
-  );
-  const refreshAtom = atom(0);
+  const promiseAndValueAtom = createPromiseAndValueAtom(anAtom, fallback, options);
 
-  if (import.meta.env?.MODE !== 'production') {
-    refreshAtom.debugPrivate = true;
-  }
-
-  const promiseAndValueAtom: WritableAtom<PromiseAndValue, [], void> & {
-    init?: undefined;
-  } = atom(
-    (get, { setSelf }) => {
-      get(refreshAtom);
-      const prev = get(promiseAndValueAtom) as PromiseAndValue | undefined;
-      const promise = get(anAtom);
-      if (!isPromiseLike(promise)) {
-        return { v: promise as Awaited<Value> } as PromiseAndValue;
-      }
-      const meta = getPromiseMeta(promise);
-      if (meta?.status === 'fulfilled') {
-        return { p: promise, v: meta.value } as PromiseAndValue;
+  return atom(
+    (get) => {
+      const state = get(promiseAndValueAtom);
+      if ('d' in state) {
+        // is pending, but the fallback is not due yet
+        return state.p;
       }
-      if (meta?.status === 'rejected') {
-        throw meta.reason;
+      if ('f' in state) {
+        // is pending
+        return state.f;
       }
-
-      if (promise !== prev?.p) {
-        promise.then(
-          (value) => {
-            setPromiseMeta(promise, { status: 'fulfilled', value });
-            setSelf();
-          },
-          (reason) => {
-            setPromiseMeta(promise, { status: 'rejected', reason });
-            setSelf();
-          },
-        );
+      if ('r' in state) {
+        // failed, but rescued by `onError`
+        return state.r;
       }
-
-      if (prev && 'v' in prev) {
-        return {
-          p: promise,
-          f: fallback({
-            get,
-            prev: prev.v,
-            pending: promise as PromiseLike<Awaited<Value>>,
-          }),
-          v: prev.v,
-        } as PromiseAndValue;
-      }
-      return {
-        p: promise,
-        f: fallback({
-          get,
-          prev: undefined,
-          pending: promise as PromiseLike<Awaited<Value>>,
-        }),
-      } as PromiseAndValue;
-    },
-    (_get, set) => {
-      set(refreshAtom, (c) => c + 1);
+      return state.v;
     },
+    (_get, set, ...args) => set(anAtom as WritableAtom<Value, unknown[], unknown>, ...args),
   );
-  // HACK to read PromiseAndValue atom before initialization
-  promiseAndValueAtom.init = undefined;
+}
 
-  if (import.meta.env?.MODE !== 'production') {
-    promiseAndValueAtom.debugPrivate = true;
-  }
+export type PendingState<Value> =
+  | {
+      value: Awaited<Value>;
+      isPending: false;
+      isStale: false;
+      pending: undefined;
+    }
+  | {
+      value: Awaited<Value>;
+      isPending: true;
+      isStale: true;
+      pending: PromiseLike<Awaited<Value>>;
+    }
+  | {
+      value: undefined;
+      isPending: true;
+      isStale: false;
+      pending: PromiseLike<Awaited<Value>>;
+    };
+
+/**
+ * Wraps an atom to expose its latest value together with its pending state, never suspending.
+ * While a new value is pending, the previous one is kept around and marked as stale, which
+ * lets UIs render a spinner over the existing content.
+ *
+ * @param anAtom The atom to wrap, which may resolve asynchronously.
+ * @returns An atom that returns the latest known `value`, whether a new one `isPending`, whether
+ * the `value` `isStale`, and the `pending` promise of the new value.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { withPendingState } from 'jotai-eager';
+ *
+ * const asyncAtom = atom(Promise.resolve('data'));
+ * const stateAtom = withPendingState(asyncAtom);
+ * // stateAtom returns { value: undefined, isPending: true, isStale: false, pending: Promise }
+ * // and then { value: 'data', isPending: false, isStale: false, pending: undefined }
+ * ```
+ */
+export function withPendingState<Value, Args extends unknown[], Result>(
+  anAtom: WritableAtom<Value, Args, Result>,
+): WritableAtom<PendingState<Value>, Args, Result>;
+
+/**
+ * Wraps an atom to expose its latest value together with its pending state, never suspending.
+ * While a new value is pending, the previous one is kept around and marked as stale, which
+ * lets UIs render a spinner over the existing content.
+ *
+ * @param anAtom The atom to wrap, which may resolve asynchronously.
+ * @returns An atom that returns the latest known `value`, whether a new one `isPending`, whether
+ * the `value` `isStale`, and the `pending` promise of the new value.
+ *
+ * @example
+ * ```ts
+ * import { atom } from 'jotai';
+ * import { withPendingState } from 'jotai-eager';
+ *
+ * const asyncAtom = atom(Promise.resolve('data'));
+ * const stateAtom = withPendingState(asyncAtom);
+ * // stateAtom returns { value: undefined, isPending: true, isStale: false, pending: Promise }
+ * // and then { value: 'data', isPending: false, isStale: false, pending: undefined }
+ * ```
+ */
+export function withPendingState<Value>(anAtom: Atom<Value>): Atom<PendingState<Value>>;
+
+export function withPendingState<Value, Args extends unknown[], Result>(
+  anAtom: WritableAtom<Value, Args, Result> | Atom<Value>,
+) {
+  const promiseAndValueAtom = createPromiseAndValueAtom(anAtom, defaultFallback);
 
   return atom(
-    (get) => {
+    (get): PendingState<Value> => {
       const state = get(promiseAndValueAtom);
       if ('f' in state) {
-        // is pending
-        return state.f;
+        const pending = state.p as PromiseLike<Awaited<Value>>;
+        if ('v' in state) {
+          return { value: state.v as Awaited<Value>, isPending: true, isStale: true, pending };
+        }
+        return { value: undefined, isPending: true, isStale: false, pending };
       }
-      return state.v;
+      // Errors are never rescued here, so the value is always there
+      return {
+        value: state.v as Awaited<Value>,
+        isPending: false,
+        isStale: false,
+        pending: undefined,
+      };
     },
     (_get, set, ...args) => set(anAtom as WritableAtom<Value, unknown[], unknown>, ...args),
   );
@@ -1,9 +1,9 @@
 import type { Atom } from 'jotai/vanilla';
-import { eagerAtom, isEagerError } from 'jotai-eager';
+import { eagerAtom, eagerWrite, isEagerError } from 'jotai-eager';
 import { atom, createStore } from 'jotai/vanilla';
 import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
 import { deferred } from './mockUtils.ts';
-import type { AwaitedAll } from '../src/eagerAtom.ts';
+import type { AwaitedAll, Settled } from '../src/eagerAtom.ts';
 
 describe('AwaitedAll<T>', () => {
   it('resolves a tuple of atoms to a tuple of their awaited values', () => {
@@ -270,13 +270,257 @@ describe('eagerAtom', () => {
 				  ""two" computed",
 				  ""three" computed",
 				  "suspended",
-				  "suspended",
+				]
+			`);
+    });
+  });
+
+  describe('get.allSettled', () => {
+    it('computes synchronously if all dependencies are known', () => {
+      const error = new Error('oops');
+      const nameAtom = atom('Bob');
+      const invalidAtom = atom<number>(() => {
+        throw error;
+      });
+
+      const resultsAtom = eagerAtom((get) => get.allSettled([nameAtom, invalidAtom]));
+
+      const results = store.get(resultsAtom);
+      expect(results).toEqual([
+        { status: 'fulfilled', value: 'Bob' },
+        { status: 'rejected', reason: error },
+      ]);
+      expectTypeOf(results).toEqualTypeOf<
+        [Settled<string>, Settled<number>] | Promise<[Settled<string>, Settled<number>]>
+      >();
+    });
+
+    it('waits for every dependency to settle, even if one rejects early', async () => {
+      const error = new Error('oops');
+      const aTask = deferred<number>();
+      const bTask = deferred<number>();
+      const aAtom = atom(aTask.promise);
+      const bAtom = atom(bTask.promise);
+
+      const resultsAtom = eagerAtom((get) => get.allSettled([aAtom, bAtom]));
+
+      const results = store.get(resultsAtom);
+      expect(results).toBeInstanceOf(Promise);
+
+      aTask.reject(error);
+      await Promise.resolve(); // wait micro-tick
+      bTask.resolve(2);
+
+      await expect(results).resolves.toEqual([
+        { status: 'rejected', reason: error },
+        { status: 'fulfilled', value: 2 },
+      ]);
+    });
+
+    it('jump-starts all async atoms before suspending', async () => {
+      const events: string[] = [];
+      const oneAtom = atom(async () => {
+        events.push('"one" computed');
+        return 1;
+      });
+      const twoAtom = atom(async () => {
+        events.push('"two" computed');
+        return 2;
+      });
+
+      const resultsAtom = eagerAtom((get) => {
+        try {
+          return get.allSettled([oneAtom, twoAtom]);
+        } catch (e) {
+          if (isEagerError(e)) {
+            events.push('suspended');
+          }
+          throw e;
+        }
+      });
+
+      await expect(store.get(resultsAtom)).resolves.toEqual([
+        { status: 'fulfilled', value: 1 },
+        { status: 'fulfilled', value: 2 },
+      ]);
+      expect(events).toMatchInlineSnapshot(`
+				[
+				  ""one" computed",
+				  ""two" computed",
 				  "suspended",
 				]
 			`);
     });
   });
 
+  describe('get.awaitAllSettled', () => {
+    it('awaits regular Promises without failing on rejection', async () => {
+      const error = new Error('oops');
+      const promises = [Promise.resolve(1), Promise.reject<number>(error)] as const;
+
+      const resultsAtom = eagerAtom((get) => get.awaitAllSettled(promises));
+
+      await expect(store.get(resultsAtom)).resolves.toEqual([
+        { status: 'fulfilled', value: 1 },
+        { status: 'rejected', reason: error },
+      ]);
+    });
+  });
+
+  describe('get.race', () => {
+    it('computes synchronously if any dependency is already fulfilled', async () => {
+      const primaryAtom = atom(new Promise<string>(() => {}));
+      const mirrorAtom = atom(Promise.resolve('mirror'));
+      const suffixAtom = atom('!');
+
+      const dataAtom = eagerAtom(
+        (get) => `${get.race([primaryAtom, mirrorAtom])}${get(suffixAtom)}`,
+      );
+
+      await expect(store.get(dataAtom)).resolves.toEqual('mirror!');
+
+      store.set(suffixAtom, '?');
+      expect(store.get(dataAtom)).toEqual('mirror?');
+      expectTypeOf(dataAtom).toEqualTypeOf<Atom<string | Promise<string>>>();
+    });
+
+    it('settles with the first dependency to settle', async () => {
+      const error = new Error('oops');
+      const primaryTask = deferred<string>();
+      const mirrorTask = deferred<string>();
+      const primaryAtom = atom(primaryTask.promise);
+      const mirrorAtom = atom(mirrorTask.promise);
+
+      const dataAtom = eagerAtom((get) => get.race([primaryAtom, mirrorAtom]));
+
+      const first = store.get(dataAtom);
+      expect(first).toBeInstanceOf(Promise);
+      primaryTask.resolve('primary');
+      await expect(first).resolves.toEqual('primary');
+
+      const failingAtom = eagerAtom((get) => get.race([mirrorAtom, primaryAtom]));
+      const otherStore = createStore();
+      otherStore.set(primaryAtom, new Promise<string>(() => {}));
+      const second = otherStore.get(failingAtom);
+      mirrorTask.reject(error);
+      await expect(second).rejects.toThrowError(error);
+    });
+  });
+
+  describe('get.any', () => {
+    it('computes synchronously if any dependency is already fulfilled', () => {
+      const primaryAtom = atom<string>(() => {
+        throw new Error('offline');
+      });
+      const mirrorAtom = atom('mirror');
+
+      const dataAtom = eagerAtom((get) => get.any([primaryAtom, mirrorAtom]));
+
+      expect(store.get(dataAtom)).toEqual('mirror');
+    });
+
+    it('skips rejected dependencies', async () => {
+      const primaryTask = deferred<string>();
+      const mirrorTask = deferred<string>();
+      const primaryAtom = atom(primaryTask.promise);
+      const mirrorAtom = atom(mirrorTask.promise);
+
+      const dataAtom = eagerAtom((get) => get.any([primaryAtom, mirrorAtom]));
+
+      const data = store.get(dataAtom);
+      expect(data).toBeInstanceOf(Promise);
+
+      primaryTask.reject(new Error('offline'));
+      await Promise.resolve(); // wait micro-tick
+      mirrorTask.resolve('mirror');
+
+      await expect(data).resolves.toEqual('mirror');
+    });
+
+    it('rejects with an AggregateError if all dependencies reject', async () => {
+      const primaryError = new Error('offline');
+      const mirrorError = new Error('also offline');
+
+      const promises = [Promise.reject<string>(primaryError), Promise.reject<string>(mirrorError)];
+
+      const dataAtom = eagerAtom((get) => get.awaitAny(promises));
+
+      const data = store.get(dataAtom);
+      await expect(data).rejects.toThrowError('All promises were rejected');
+      await expect(data).rejects.toHaveProperty('errors', [primaryError, mirrorError]);
+    });
+  });
+
+  describe('get.peek', () => {
+    it('returns the loading state without suspending', async () => {
+      const userAtom = atom('Bob');
+      const enrichmentTask = deferred<string>();
+      const enrichmentAtom = atom(enrichmentTask.promise);
+
+      const profileAtom = eagerAtom((get) => {
+        const enrichment = get.peek(enrichmentAtom);
+        return enrichment.state === 'hasData'
+          ? `${get(userAtom)} (${enrichment.data})`
+          : `${get(userAtom)} (${enrichment.state})`;
+      });
+
+      const unsub = store.sub(profileAtom, () => {});
+      expect(store.get(profileAtom)).toEqual('Bob (loading)');
+
+      enrichmentTask.resolve('admin');
+      await Promise.resolve(); // wait micro-tick
+
+      expect(store.get(profileAtom)).toEqual('Bob (admin)');
+      unsub();
+    });
+
+    it('returns the error state without rejecting', async () => {
+      const error = new Error('oops');
+      const enrichmentAtom = atom<string>(() => {
+        throw error;
+      });
+
+      const profileAtom = eagerAtom((get) => get.peek(enrichmentAtom));
+
+      expect(store.get(profileAtom)).toEqual({ state: 'hasError', error });
+    });
+  });
+
+  describe('get.orElse', () => {
+    it('returns the fallback while pending, and recomputes once settled', async () => {
+      const enrichmentTask = deferred<string>();
+      const enrichmentAtom = atom(enrichmentTask.promise);
+      let computations = 0;
+
+      const roleAtom = eagerAtom((get) => {
+        computations++;
+        return get.orElse(enrichmentAtom, 'guest');
+      });
+
+      const unsub = store.sub(roleAtom, () => {});
+      expect(store.get(roleAtom)).toEqual('guest');
+      expectTypeOf(roleAtom).toEqualTypeOf<Atom<string | Promise<string>>>();
+
+      enrichmentTask.resolve('admin');
+      await Promise.resolve(); // wait micro-tick
+
+      expect(store.get(roleAtom)).toEqual('admin');
+      expect(computations).toEqual(2);
+      unsub();
+    });
+
+    it('rethrows errors of the dependency', async () => {
+      const error = new Error('oops');
+      const enrichmentAtom = atom(Promise.reject<string>(error));
+
+      const roleAtom = eagerAtom((get) => get.orElse(enrichmentAtom, 'guest'));
+
+      expect(store.get(roleAtom)).toEqual('guest');
+      await Promise.resolve(); // wait micro-tick
+      await expect(store.get(roleAtom)).rejects.toThrowError(error);
+    });
+  });
+
   describe('get.await', () => {
     it('awaits a regular Promise', async () => {
       const statusPromise = Promise.resolve<'success' | 'failure'>('success');
@@ -294,4 +538,331 @@ describe('eagerAtom', () => {
       await expect(store.get(statusAtom)).resolves.toEqual('success');
     });
   });
+
+  describe('get.cache', () => {
+    it('keeps promises created inside the read function across interruptions', async () => {
+      const idAtom = atom(1);
+      const load = vi.fn((id: number) => Promise.resolve(`invoice #${id}`));
+
+      const invoiceAtom = eagerAtom((get) => {
+        const id = get(idAtom);
+        return get.await(get.cache('invoice', () => load(id)));
+      });
+
+      await expect(store.get(invoiceAtom)).resolves.toEqual('invoice #1');
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('is invalidated when dependencies change', async () => {
+      const idAtom = atom(1);
+      const load = vi.fn((id: number) => Promise.resolve(`invoice #${id}`));
+
+      const invoiceAtom = eagerAtom((get) => {
+        const id = get(idAtom);
+        return get.await(get.cache('invoice', () => load(id)));
+      });
+
+      await expect(store.get(invoiceAtom)).resolves.toEqual('invoice #1');
+      store.set(idAtom, 2);
+      await expect(store.get(invoiceAtom)).resolves.toEqual('invoice #2');
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('prefetching', () => {
+    function createWaterfall(events: string[]) {
+      const versionAtom = atom(0);
+      const userAtom = atom((get) => {
+        const version = get(versionAtom);
+        events.push(`user v${version} requested`);
+        return Promise.resolve('John');
+      });
+      const messagesAtom = atom((get) => {
+        const version = get(versionAtom);
+        events.push(`messages v${version} requested`);
+        return Promise.resolve(['Hi']);
+      });
+
+      return { versionAtom, userAtom, messagesAtom };
+    }
+
+    it('jump-starts the dependencies of the previous computation', async () => {
+      const events: string[] = [];
+      const { versionAtom, userAtom, messagesAtom } = createWaterfall(events);
+      const feedAtom = eagerAtom((get) => `${get(userAtom)}: ${get(messagesAtom).join()}`);
+
+      await expect(store.get(feedAtom)).resolves.toEqual('John: Hi');
+      store.set(versionAtom, 1);
+      const feed = store.get(feedAtom);
+
+      expect(events).toMatchInlineSnapshot(`
+				[
+				  "user v0 requested",
+				  "messages v0 requested",
+				  "user v1 requested",
+				  "messages v1 requested",
+				]
+			`);
+      await expect(feed).resolves.toEqual('John: Hi');
+    });
+
+    it('can be turned off', async () => {
+      const events: string[] = [];
+      const { versionAtom, userAtom, messagesAtom } = createWaterfall(events);
+      const feedAtom = eagerAtom((get) => `${get(userAtom)}: ${get(messagesAtom).join()}`, {
+        prefetch: false,
+      });
+
+      await expect(store.get(feedAtom)).resolves.toEqual('John: Hi');
+      store.set(versionAtom, 1);
+      const feed = store.get(feedAtom);
+
+      expect(events).toMatchInlineSnapshot(`
+				[
+				  "user v0 requested",
+				  "messages v0 requested",
+				  "user v1 requested",
+				]
+			`);
+      await expect(feed).resolves.toEqual('John: Hi');
+    });
+    it('does not wait for dependencies of the previous computation that are no longer read', async () => {
+      const flagAtom = atom(true);
+      const neverAtom = atom(new Promise<string>(() => {}));
+      const b = deferred<string>();
+      const bAtom = atom(b.promise);
+      const resultAtom = eagerAtom((get) => (get(flagAtom) ? get(neverAtom) : get(bAtom)));
+
+      const unsub = store.sub(resultAtom, () => {});
+      store.set(flagAtom, false);
+      const result = store.get(resultAtom);
+      b.resolve('b');
+
+      await expect(result).resolves.toEqual('b');
+      unsub();
+    });
+  });
+
+  describe('get.memo', () => {
+    it('keeps the result across interrupted executions', async () => {
+      const rowsAtom = atom(Promise.resolve([3, 1, 2]));
+      const labelAtom = atom(Promise.resolve('Sorted'));
+      const sort = vi.fn((rows: number[]) => [...rows].sort());
+
+      const tableAtom = eagerAtom((get) => {
+        const rows = get(rowsAtom);
+        const sorted = get.memo(() => sort(rows), [rows]);
+        return `${get(labelAtom)}: ${sorted.join()}`;
+      });
+
+      await expect(store.get(tableAtom)).resolves.toEqual('Sorted: 1,2,3');
+      expect(sort).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the result across unrelated dependency changes', async () => {
+      const rowsAtom = atom([3, 1, 2]);
+      const labelAtom = atom('Sorted');
+      const sort = vi.fn((rows: number[]) => [...rows].sort());
+
+      const tableAtom = eagerAtom((get) => {
+        const rows = get(rowsAtom);
+        const sorted = get.memo(() => sort(rows), [rows]);
+        return `${get(labelAtom)}: ${sorted.join()}`;
+      });
+
+      expect(store.get(tableAtom)).toEqual('Sorted: 1,2,3');
+      store.set(labelAtom, 'Ordered');
+      expect(store.get(tableAtom)).toEqual('Ordered: 1,2,3');
+      expect(sort).toHaveBeenCalledTimes(1);
+
+      store.set(rowsAtom, [5, 4]);
+      expect(store.get(tableAtom)).toEqual('Ordered: 4,5');
+      expect(sort).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('equality', () => {
+    it('keeps the previous value if equal', () => {
+      const usersAtom = atom([{ id: 1, name: 'John' }]);
+
+      const idsAtom = eagerAtom((get) => get(usersAtom).map((user) => user.id), {
+        equals: (prev: number[], next: number[]) => prev.join() === next.join(),
+      });
+
+      const ids = store.get(idsAtom);
+      store.set(usersAtom, [{ id: 1, name: 'Johnny' }]);
+      expect(store.get(idsAtom)).toBe(ids);
+      store.set(usersAtom, [{ id: 2, name: 'Jane' }]);
+      expect(store.get(idsAtom)).toEqual([2]);
+    });
+
+    it('keeps the previous value if equal, after an interruption', async () => {
+      const usersAtom = atom(Promise.resolve([{ id: 1, name: 'John' }]));
+
+      const idsAtom = eagerAtom((get) => get(usersAtom).map((user) => user.id), {
+        equals: (prev: number[], next: number[]) => prev.join() === next.join(),
+      });
+
+      const ids = await store.get(idsAtom);
+      store.set(usersAtom, Promise.resolve([{ id: 1, name: 'Johnny' }]));
+      await expect(store.get(idsAtom)).resolves.toBe(ids);
+    });
+
+    it('shares the unchanged subtrees of the previous value', () => {
+      type Profile = { name: string; address: { city: string }; tags: string[] };
+      const nameAtom = atom('John');
+
+      const profileAtom = eagerAtom(
+        (get) => ({
+          name: get(nameAtom),
+          address: { city: 'Paris' },
+          tags: ['admin'],
+        }),
+        { structuralSharing: true },
+      );
+
+      const profile = store.get(profileAtom) as Profile;
+      store.set(nameAtom, 'Jane');
+      const nextProfile = store.get(profileAtom) as Profile;
+
+      expect(nextProfile).not.toBe(profile);
+      expect(nextProfile).toEqual({ name: 'Jane', address: { city: 'Paris' }, tags: ['admin'] });
+      expect(nextProfile.address).toBe(profile.address);
+      expect(nextProfile.tags).toBe(profile.tags);
+
+      store.set(nameAtom, 'Jane ');
+      store.set(nameAtom, 'Jane');
+      expect(store.get(profileAtom)).toBe(nextProfile);
+    });
+  });
+
+  describe('read options', () => {
+    it('aborts the signal of a stale computation', async () => {
+      const queryAtom = atom('c');
+      const signals: AbortSignal[] = [];
+
+      const resultsAtom = eagerAtom((get, { signal }) => {
+        const query = get(queryAtom);
+        signals.push(signal);
+        return get.await(get.cache('search', () => Promise.resolve(`results for ${query}`)));
+      });
+
+      const unsub = store.sub(resultsAtom, () => {});
+      store.set(queryAtom, 'ca');
+
+      expect(signals[0]?.aborted).toBe(true);
+      await expect(store.get(resultsAtom)).resolves.toEqual('results for ca');
+      expect(signals.at(-1)?.aborted).toBe(false);
+      unsub();
+    });
+
+    it('allows the read function to schedule its own refresh', async () => {
+      const versionAtom = atom(0);
+
+      const selfRefreshingAtom = eagerAtom(
+        (get, { setSelf }) => {
+          const version = get(versionAtom);
+          if (version === 0) {
+            setTimeout(() => setSelf(), 1000);
+          }
+          return version;
+        },
+        (_get, set) => {
+          set(versionAtom, (v) => v + 1);
+        },
+      );
+
+      const unsub = store.sub(selfRefreshingAtom, () => {});
+      expect(store.get(selfRefreshingAtom)).toEqual(0);
+      vi.runAllTimers();
+      expect(store.get(selfRefreshingAtom)).toEqual(1);
+      unsub();
+    });
+  });
+});
+
+describe('eagerWrite', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('runs synchronously if dependencies are fulfilled', () => {
+    const userAtom = atom<{ name: string } | Promise<{ name: string }>>({ name: 'John' });
+    const renameAtom = atom(
+      null,
+      eagerWrite((get, set, suffix: string) => {
+        const user = get(userAtom);
+        set(userAtom, { name: user.name + suffix });
+        return user.name;
+      }),
+    );
+
+    const result = store.set(renameAtom, '!');
+
+    expect(result).toEqual('John');
+    expect(store.get(userAtom)).toEqual({ name: 'John!' });
+    expectTypeOf(result).toEqualTypeOf<string | Promise<string>>();
+  });
+
+  it('returns a promise if it had to wait for a dependency', async () => {
+    const userTask = deferred<{ name: string }>();
+    const userAtom = atom<{ name: string } | Promise<{ name: string }>>(userTask.promise);
+    const renameAtom = atom(
+      null,
+      eagerWrite((get, set, suffix: string) => {
+        const user = get(userAtom);
+        set(userAtom, { name: user.name + suffix });
+      }),
+    );
+
+    const result = store.set(renameAtom, '!');
+    expect(result).toBeInstanceOf(Promise);
+
+    userTask.resolve({ name: 'John' });
+
+    await expect(result).resolves.toBeUndefined();
+    expect(store.get(userAtom)).toEqual({ name: 'John!' });
+  });
+
+  it('can be used as the write function of eager atoms', async () => {
+    const countAtom = atom(Promise.resolve(1));
+    const doubledAtom = eagerAtom(
+      (get) => get(countAtom) * 2,
+      eagerWrite((get, set, delta: number) => {
+        set(countAtom, Promise.resolve(get(countAtom) + delta));
+      }),
+    );
+
+    await expect(store.get(doubledAtom)).resolves.toEqual(2);
+    expect(store.set(doubledAtom, 1)).toBeUndefined();
+    await expect(store.get(doubledAtom)).resolves.toEqual(4);
+  });
+
+  it('throws synchronously on sync throw', () => {
+    const error = new Error('oops');
+    const failingAtom = atom(
+      null,
+      eagerWrite(() => {
+        throw error;
+      }),
+    );
+
+    expect(() => store.set(failingAtom)).toThrowError(error);
+  });
+
+  it('returns a rejected promise on throw after waiting', async () => {
+    const error = new Error('oops');
+    const countAtom = atom(Promise.resolve(1));
+    const failingAtom = atom(
+      null,
+      eagerWrite((get) => {
+        get(countAtom);
+        throw error;
+      }),
+    );
+
+    await expect(store.set(failingAtom)).rejects.toThrowError(error);
+  });
 });
@@ -0,0 +1,101 @@
+import type { Atom, WritableAtom } from 'jotai/vanilla';
+import { eagerAtomFamily } from 'jotai-eager';
+import { atom, createStore } from 'jotai/vanilla';
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+
+describe('eagerAtomFamily', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const usersAtom = atom(
+    Promise.resolve([
+      { id: 'john', name: 'John' },
+      { id: 'jane', name: 'Jane' },
+    ]),
+  );
+
+  it('creates one atom per param', async () => {
+    const userAtomFamily = eagerAtomFamily((id: string) => (get) => {
+      return get(usersAtom).find((user) => user.id === id)?.name;
+    });
+
+    expect(userAtomFamily('john')).toBe(userAtomFamily('john'));
+    expect(userAtomFamily('john')).not.toBe(userAtomFamily('jane'));
+    await expect(store.get(userAtomFamily('jane'))).resolves.toEqual('Jane');
+    // Known by now
+    expect(store.get(userAtomFamily('john'))).toEqual('John');
+    expect([...userAtomFamily.getParams()]).toEqual(['john', 'jane']);
+
+    expectTypeOf(userAtomFamily('john')).toEqualTypeOf<
+      Atom<string | undefined | Promise<string | undefined>>
+    >();
+  });
+
+  it('compares params with `areEqual`', () => {
+    const cellAtomFamily = eagerAtomFamily(
+      ({ x, y }: { x: number; y: number }) =>
+        () =>
+          x * y,
+      { areEqual: (a, b) => a.x === b.x && a.y === b.y },
+    );
+
+    expect(cellAtomFamily({ x: 2, y: 3 })).toBe(cellAtomFamily({ x: 2, y: 3 }));
+    expect(store.get(cellAtomFamily({ x: 2, y: 3 }))).toEqual(6);
+    expect([...cellAtomFamily.getParams()]).toHaveLength(1);
+  });
+
+  it('can be writable', () => {
+    const countsAtom = atom<Record<string, number>>({});
+    const countAtomFamily = eagerAtomFamily(
+      (key: string) => (get) => get(countsAtom)[key] ?? 0,
+      (key) => (_get, set, count: number) => {
+        set(countsAtom, (prev) => ({ ...prev, [key]: count }));
+      },
+    );
+
+    store.set(countAtomFamily('a'), 12);
+    expect(store.get(countAtomFamily('a'))).toEqual(12);
+    expect(store.get(countAtomFamily('b'))).toEqual(0);
+
+    expectTypeOf(countAtomFamily('a')).toEqualTypeOf<
+      WritableAtom<number | Promise<number>, [count: number], void>
+    >();
+  });
+
+  it('forgets removed atoms', () => {
+    const itemAtomFamily = eagerAtomFamily((id: number) => () => ({ id }));
+
+    const itemAtom = itemAtomFamily(1);
+    itemAtomFamily.remove(1);
+
+    expect([...itemAtomFamily.getParams()]).toEqual([]);
+    expect(itemAtomFamily(1)).not.toBe(itemAtom);
+  });
+
+  it('forgets atoms matching `shouldRemove`', () => {
+    vi.useFakeTimers();
+    const itemAtomFamily = eagerAtomFamily((id: number) => () => ({ id }));
+
+    const firstAtom = itemAtomFamily(1);
+    vi.advanceTimersByTime(1000);
+    const secondAtom = itemAtomFamily(2);
+
+    itemAtomFamily.setShouldRemove((createdAt) => Date.now() - createdAt >= 1000);
+    expect([...itemAtomFamily.getParams()]).toEqual([2]);
+    expect(itemAtomFamily(1)).not.toBe(firstAtom);
+
+    vi.advanceTimersByTime(1000);
+    expect(itemAtomFamily(2)).not.toBe(secondAtom);
+
+    itemAtomFamily.setShouldRemove(null);
+    vi.advanceTimersByTime(1000);
+    expect(itemAtomFamily(2)).toBe(itemAtomFamily(2));
+  });
+});
@@ -0,0 +1,62 @@
+import { eagerAtomWithDefault } from 'jotai-eager';
+import { atom, createStore } from 'jotai/vanilla';
+import { RESET } from 'jotai/vanilla/utils';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { deferred } from './mockUtils.ts';
+
+describe('eagerAtomWithDefault', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('tracks the default until overwritten', () => {
+    const countAtom = atom(1);
+    const doubledAtom = eagerAtomWithDefault((get) => get(countAtom) * 2);
+
+    expect(store.get(doubledAtom)).toEqual(2);
+    store.set(countAtom, 2);
+    expect(store.get(doubledAtom)).toEqual(4);
+
+    store.set(doubledAtom, 10);
+    store.set(countAtom, 3);
+    expect(store.get(doubledAtom)).toEqual(10);
+  });
+
+  it('goes back to the default when reset', async () => {
+    const user = deferred<{ name: string }>();
+    const userAtom = atom(user.promise);
+    const nameAtom = eagerAtomWithDefault((get) => get(userAtom).name);
+
+    const name = store.get(nameAtom);
+    user.resolve({ name: 'John' });
+    await expect(name).resolves.toEqual('John');
+
+    store.set(nameAtom, 'Johnny');
+    expect(store.get(nameAtom)).toEqual('Johnny');
+
+    store.set(nameAtom, RESET);
+    // The default is known by now
+    expect(store.get(nameAtom)).toEqual('John');
+  });
+
+  it('accepts updater functions', async () => {
+    const user = deferred<{ name: string }>();
+    const userAtom = atom(user.promise);
+    const nameAtom = eagerAtomWithDefault((get) => get(userAtom).name);
+
+    const written = store.set(nameAtom, (prev) => `${prev}ny`);
+    expect(written).toBeInstanceOf(Promise);
+    user.resolve({ name: 'John' });
+    await written;
+    expect(store.get(nameAtom)).toEqual('Johnny');
+
+    // Synchronous, as the current value is known
+    expect(store.set(nameAtom, (prev) => prev.toUpperCase())).toBeUndefined();
+    expect(store.get(nameAtom)).toEqual('JOHNNY');
+
+    store.set(nameAtom, () => RESET);
+    expect(store.get(nameAtom)).toEqual('John');
+  });
+});
@@ -0,0 +1,87 @@
+import { type WritableAtomWithRefresh, eagerAtomWithRefresh } from 'jotai-eager';
+import { atom, createStore } from 'jotai/vanilla';
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { deferred } from './mockUtils.ts';
+
+describe('eagerAtomWithRefresh', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('recomputes when written to without arguments', async () => {
+    let version = 0;
+    const fetchVersion = vi.fn(async () => ++version);
+    const versionAtom = eagerAtomWithRefresh((get) =>
+      get.await(get.cache('version', fetchVersion)),
+    );
+
+    await expect(store.get(versionAtom)).resolves.toEqual(1);
+    store.set(versionAtom);
+    await expect(store.get(versionAtom)).resolves.toEqual(2);
+    expect(fetchVersion).toHaveBeenCalledTimes(2);
+
+    expectTypeOf(versionAtom).toEqualTypeOf<WritableAtomWithRefresh<number, [], void>>();
+  });
+
+  it('aborts the signal of the stale computation', async () => {
+    const signals: AbortSignal[] = [];
+    const results = [deferred<string>(), deferred<string>()];
+    const dataAtom = eagerAtomWithRefresh((get, { signal }) => {
+      signals.push(signal);
+      return get.await(get.cache('data', () => results[signals.length - 1]!.promise));
+    });
+
+    const unsub = store.sub(dataAtom, () => {});
+    store.set(dataAtom);
+    expect(signals[0]?.aborted).toBe(true);
+
+    results[1]!.resolve('fresh');
+    await expect(store.get(dataAtom)).resolves.toEqual('fresh');
+    expect(signals.at(-1)?.aborted).toBe(false);
+    unsub();
+  });
+
+  it('delegates writes with arguments to `write`', () => {
+    const countAtom = atom(1);
+    const doubledAtom = eagerAtomWithRefresh(
+      (get) => get(countAtom) * 2,
+      (_get, set, count: number) => {
+        set(countAtom, count / 2);
+      },
+    );
+
+    store.set(doubledAtom, 10);
+    expect(store.get(doubledAtom)).toEqual(10);
+  });
+
+  it('exposes the previous value and a refreshing flag through `stateAtom`', async () => {
+    let version = 0;
+    const versionAtom = eagerAtomWithRefresh((get) =>
+      get.await(get.cache('version', async () => ++version)),
+    );
+
+    const unsub = store.sub(versionAtom.stateAtom, () => {});
+    // Nothing to show before the first value lands
+    const first = store.get(versionAtom.stateAtom);
+    expect(first).toBeInstanceOf(Promise);
+    await expect(first).resolves.toEqual({ value: 1, isRefreshing: false });
+    await vi.waitFor(() =>
+      expect(store.get(versionAtom.stateAtom)).toEqual({ value: 1, isRefreshing: false }),
+    );
+
+    store.set(versionAtom);
+    expect(store.get(versionAtom.stateAtom)).toEqual({ value: 1, isRefreshing: true });
+    await vi.waitFor(() =>
+      expect(store.get(versionAtom.stateAtom)).toEqual({ value: 2, isRefreshing: false }),
+    );
+    unsub();
+  });
+
+  it('is never refreshing for a sync atom', () => {
+    const versionAtom = eagerAtomWithRefresh(() => 1);
+
+    expect(store.get(versionAtom.stateAtom)).toEqual({ value: 1, isRefreshing: false });
+  });
+});
@@ -0,0 +1,176 @@
+import type { Atom } from 'jotai/vanilla';
+import { eagerGenAtom } from 'jotai-eager';
+import { atom, createStore } from 'jotai/vanilla';
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { deferred } from './mockUtils.ts';
+
+describe('eagerGenAtom', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('derives a sync atom', () => {
+    const countAtom = atom(12);
+    const doubledAtom = eagerGenAtom(function* (get) {
+      return (yield* get(countAtom)) * 2;
+    });
+
+    expect(store.get(doubledAtom)).toEqual(24);
+    expectTypeOf(doubledAtom).toEqualTypeOf<Atom<number | Promise<number>>>();
+  });
+
+  it('derives an async atom', async () => {
+    const computation = deferred<number>();
+    const countAtom = atom(computation.promise);
+    const doubledAtom = eagerGenAtom(function* (get) {
+      return (yield* get(countAtom)) * 2;
+    });
+
+    const doubled = store.get(doubledAtom);
+    expect(doubled).toBeInstanceOf(Promise);
+
+    computation.resolve(12);
+
+    await expect(doubled).resolves.toEqual(24);
+  });
+
+  it('computes synchronously if asynchronous dependencies are fulfilled', async () => {
+    const petsAtom = atom(async () => ['dog', 'cat', 'meerkat']);
+    const filterAtom = atom('');
+    const filteredPetsAtom = eagerGenAtom(function* (get) {
+      const filter = yield* get(filterAtom);
+      const pets = yield* get(petsAtom);
+      return pets.filter((name) => name.includes(filter));
+    });
+
+    await expect(store.get(filteredPetsAtom)).resolves.toEqual(['dog', 'cat', 'meerkat']);
+
+    store.set(filterAtom, 'at');
+    expect(store.get(filteredPetsAtom)).toEqual(['cat', 'meerkat']);
+  });
+
+  it('does not let try & catch intercept the interruption', async () => {
+    const caught: unknown[] = [];
+    const userTask = deferred<string>();
+    const userAtom = atom(userTask.promise);
+
+    const greetingAtom = eagerGenAtom(function* (get) {
+      try {
+        return `Hello, ${yield* get(userAtom)}!`;
+      } catch (e) {
+        caught.push(e);
+        return 'Hello, stranger!';
+      }
+    });
+
+    const greeting = store.get(greetingAtom);
+    userTask.resolve('John');
+
+    await expect(greeting).resolves.toEqual('Hello, John!');
+    expect(caught).toEqual([]);
+  });
+
+  it('lets try & catch handle rejected dependencies', async () => {
+    const userTask = deferred<string>();
+    const userAtom = atom(userTask.promise);
+
+    const greetingAtom = eagerGenAtom(function* (get) {
+      try {
+        return `Hello, ${yield* get(userAtom)}!`;
+      } catch {
+        return 'Hello, stranger!';
+      }
+    });
+
+    const greeting = store.get(greetingAtom);
+    userTask.reject(new Error('Unauthorized'));
+
+    await expect(greeting).resolves.toEqual('Hello, stranger!');
+  });
+
+  it('supports the rest of the eager getter', async () => {
+    const aAtom = atom(Promise.resolve(1));
+    const bAtom = atom(Promise.resolve(2));
+    const labelAtom = atom('sum');
+
+    const sumAtom = eagerGenAtom(function* (get) {
+      const [a, b] = yield* get.all([aAtom, bAtom]);
+      return `${get.orElse(labelAtom, '?')}: ${a + b}`;
+    });
+
+    await expect(store.get(sumAtom)).resolves.toEqual('sum: 3');
+  });
+
+  it('memoizes expensive steps across resumptions', async () => {
+    const rowsAtom = atom([3, 1, 2]);
+    const labelAtom = atom(Promise.resolve('Sorted'));
+    const sort = vi.fn((rows: number[]) => [...rows].sort());
+    const reverse = vi.fn((rows: number[]) => [...rows].reverse());
+
+    const tableAtom = eagerGenAtom(function* (get) {
+      const rows = yield* get(rowsAtom);
+      const sorted = get.memo(() => sort(rows), [rows]);
+      const label = yield* get(labelAtom);
+      const reversed = get.memo(() => reverse(sorted), [sorted]);
+      return `${label}: ${reversed.join()}`;
+    });
+
+    await expect(store.get(tableAtom)).resolves.toEqual('Sorted: 3,2,1');
+    expect(sort).toHaveBeenCalledTimes(1);
+    expect(reverse).toHaveBeenCalledTimes(1);
+  });
+
+  it('can be writable', () => {
+    const countAtom = atom(1);
+    const doubledAtom = eagerGenAtom(
+      function* (get) {
+        return (yield* get(countAtom)) * 2;
+      },
+      (_get, set, count: number) => {
+        set(countAtom, count / 2);
+      },
+    );
+
+    store.set(doubledAtom, 3);
+    expect(store.get(doubledAtom)).toEqual(3);
+  });
+
+  it('returns promises that always resolve with the latest value', async () => {
+    const aTask1 = deferred<number>();
+    const aTask2 = deferred<number>();
+    const aAtom = atom(aTask1.promise);
+    const bAtom = eagerGenAtom(function* (get) {
+      return yield* get(aAtom);
+    });
+
+    const unsub = store.sub(bAtom, () => {});
+    const p1 = store.get(bAtom);
+    expect(p1).toBeInstanceOf(Promise);
+
+    store.set(aAtom, aTask2.promise);
+    aTask2.resolve(21);
+
+    await expect(p1).resolves.toBe(21);
+    unsub();
+  });
+
+  it('does not wait for dependencies of the previous computation that are no longer read', async () => {
+    const flagAtom = atom(true);
+    const neverAtom = atom(new Promise<string>(() => {}));
+    const b = deferred<string>();
+    const bAtom = atom(b.promise);
+    const resultAtom = eagerGenAtom(function* (get) {
+      return (yield* get(flagAtom)) ? yield* get(neverAtom) : yield* get(bAtom);
+    });
+
+    const unsub = store.sub(resultAtom, () => {});
+    store.set(flagAtom, false);
+    const result = store.get(resultAtom);
+    b.resolve('b');
+
+    await expect(result).resolves.toEqual('b');
+    unsub();
+  });
+});
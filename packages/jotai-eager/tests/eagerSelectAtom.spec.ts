@@ -0,0 +1,79 @@
+import type { Atom } from 'jotai/vanilla';
+import { eagerSelectAtom } from 'jotai-eager';
+import { atom, createStore } from 'jotai/vanilla';
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { deferred } from './mockUtils.ts';
+
+interface User {
+  name: string;
+  tags: string[];
+}
+
+describe('eagerSelectAtom', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('selects synchronously from a sync atom', () => {
+    const userAtom = atom<User>({ name: 'John', tags: [] });
+    const nameAtom = eagerSelectAtom(userAtom, (user) => user.name);
+
+    expect(store.get(nameAtom)).toEqual('John');
+    expectTypeOf(nameAtom).toEqualTypeOf<Atom<string | Promise<string>>>();
+  });
+
+  it('selects asynchronously only while the value is pending', async () => {
+    const user = deferred<User>();
+    const userAtom = atom(user.promise);
+    const nameAtom = eagerSelectAtom(userAtom, (u) => u.name);
+
+    const name = store.get(nameAtom);
+    expect(name).toBeInstanceOf(Promise);
+    user.resolve({ name: 'John', tags: [] });
+    await expect(name).resolves.toEqual('John');
+
+    // The source is known by now
+    expect(createStore().get(nameAtom)).toEqual('John');
+  });
+
+  it('keeps the previous slice if equal', async () => {
+    const userAtom = atom<User | Promise<User>>({ name: 'John', tags: ['admin'] });
+    const tagsAtom = eagerSelectAtom(
+      userAtom,
+      (user) => user.tags,
+      (a, b) => a.join() === b.join(),
+    );
+
+    const tags = store.get(tagsAtom);
+    store.set(userAtom, { name: 'Johnny', tags: ['admin'] });
+    expect(store.get(tagsAtom)).toBe(tags);
+
+    store.set(userAtom, Promise.resolve({ name: 'John', tags: ['admin'] }));
+    await expect(store.get(tagsAtom)).resolves.toBe(tags);
+
+    store.set(userAtom, { name: 'John', tags: [] });
+    expect(store.get(tagsAtom)).toEqual([]);
+  });
+
+  it('does not notify subscribers if the slice is equal', () => {
+    const userAtom = atom<User>({ name: 'John', tags: [] });
+    const nameAtom = eagerSelectAtom(userAtom, (user) => user.name);
+    const listener = vi.fn();
+
+    const unsub = store.sub(nameAtom, listener);
+    store.set(userAtom, { name: 'John', tags: ['admin'] });
+    expect(listener).not.toHaveBeenCalled();
+    store.set(userAtom, { name: 'Jane', tags: ['admin'] });
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsub();
+  });
+
+  it('returns the same atom for the same arguments', () => {
+    const userAtom = atom<User>({ name: 'John', tags: [] });
+    const selectName = (user: User) => user.name;
+
+    expect(eagerSelectAtom(userAtom, selectName)).toBe(eagerSelectAtom(userAtom, selectName));
+  });
+});
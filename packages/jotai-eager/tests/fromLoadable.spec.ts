@@ -0,0 +1,85 @@
+import type { Atom } from 'jotai/vanilla';
+import { eagerAtom, fromLoadable, type Loadable, suspendOn } from 'jotai-eager';
+import { atom, createStore } from 'jotai/vanilla';
+import { beforeEach, describe, expect, expectTypeOf, it } from 'vitest';
+
+describe('fromLoadable', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('returns the data right away', () => {
+    const loadableAtom = atom<Loadable<number>>({ state: 'hasData', data: 12 });
+    const countAtom = fromLoadable(loadableAtom);
+
+    expect(store.get(countAtom)).toEqual(12);
+    expectTypeOf(countAtom).toEqualTypeOf<Atom<number | Promise<number>>>();
+  });
+
+  it('returns the same promise while loading', async () => {
+    const loadableAtom = atom<Loadable<number>>({ state: 'loading' });
+    const countAtom = fromLoadable(loadableAtom);
+    const doubledAtom = eagerAtom((get) => get(countAtom) * 2);
+
+    const count = store.get(countAtom);
+    const doubled = store.get(doubledAtom);
+    expect(count).toBeInstanceOf(Promise);
+
+    store.set(loadableAtom, { state: 'loading' });
+    expect(store.get(countAtom)).toBe(count);
+
+    store.set(loadableAtom, { state: 'hasData', data: 12 });
+    expect(store.get(countAtom)).toEqual(12);
+    await expect(count).resolves.toEqual(12);
+    await expect(doubled).resolves.toEqual(24);
+  });
+
+  it('lets eager consumers see the data as soon as it arrives', () => {
+    const loadableAtom = atom<Loadable<number>>({ state: 'loading' });
+    const countAtom = fromLoadable(loadableAtom);
+    const doubledAtom = eagerAtom((get) => get(countAtom) * 2);
+
+    expect(store.get(doubledAtom)).toBeInstanceOf(Promise);
+    store.set(loadableAtom, { state: 'hasData', data: 12 });
+    expect(store.get(doubledAtom)).toEqual(24);
+  });
+
+  it('rejects on error', async () => {
+    const error = new Error('Oops');
+    const loadableAtom = atom<Loadable<number>>({ state: 'loading' });
+    const countAtom = fromLoadable(loadableAtom);
+
+    const count = store.get(countAtom);
+    store.set(loadableAtom, { state: 'hasError', error });
+    expect(store.get(countAtom)).toBe(count);
+    await expect(count).rejects.toBe(error);
+
+    // Failing right away
+    const failedAtom = fromLoadable(atom<Loadable<number>>({ state: 'hasError', error }));
+    await expect(store.get(failedAtom)).rejects.toBe(error);
+  });
+});
+
+describe('suspendOn', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('suspends while holding the sentinel', async () => {
+    const messagesOrNullAtom = atom<string[] | null>(null);
+    const messagesAtom = suspendOn(messagesOrNullAtom, null);
+
+    const messages = store.get(messagesAtom);
+    expect(messages).toBeInstanceOf(Promise);
+
+    store.set(messagesOrNullAtom, ['Hi']);
+    expect(store.get(messagesAtom)).toEqual(['Hi']);
+    await expect(messages).resolves.toEqual(['Hi']);
+
+    expectTypeOf(messagesAtom).toEqualTypeOf<Atom<string[] | Promise<string[]>>>();
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { atom, createStore } from 'jotai/vanilla';
 import { loadable } from 'jotai-eager';
 
@@ -30,3 +30,48 @@ describe('loadable', () => {
     expect(store.get(loadableAtom)).toHaveProperty('state', 'hasData');
   });
 });
+
+describe('loadable timing', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not flash the loading state for fast responses', async () => {
+    const asyncAtom = atom(Promise.resolve('first'));
+    const loadableAtom = loadable(asyncAtom, { delayMs: 100 });
+    const unsub = store.sub(loadableAtom, () => {});
+
+    // Suspending instead of flashing 'loading' on the first load
+    const first = store.get(loadableAtom);
+    expect(first).toBeInstanceOf(Promise);
+    await expect(first).resolves.toEqual({ state: 'hasData', data: 'first' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.get(loadableAtom)).toEqual({ state: 'hasData', data: 'first' });
+
+    store.set(asyncAtom, Promise.resolve('second'));
+    expect(store.get(loadableAtom)).toEqual({ state: 'hasData', data: 'first' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.get(loadableAtom)).toEqual({ state: 'hasData', data: 'second' });
+
+    unsub();
+  });
+
+  it('switches to loading once `delayMs` is over', async () => {
+    const asyncAtom = atom(new Promise<string>(() => {}));
+    const loadableAtom = loadable(asyncAtom, { delayMs: 100 });
+    const unsub = store.sub(loadableAtom, () => {});
+
+    expect(store.get(loadableAtom)).toBeInstanceOf(Promise);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(store.get(loadableAtom)).toEqual({ state: 'loading' });
+
+    unsub();
+  });
+});
@@ -0,0 +1,83 @@
+import type { Atom } from 'jotai/vanilla';
+import { loadableAll } from 'jotai-eager';
+import { atom, createStore } from 'jotai/vanilla';
+import { beforeEach, describe, expect, expectTypeOf, it } from 'vitest';
+import { deferred } from './mockUtils.ts';
+import type { Loadable } from '../src/loadable.ts';
+
+describe('loadableAll', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('combines a tuple of atoms', async () => {
+    const a = deferred<number>();
+    const b = deferred<string>();
+    const aAtom = atom(a.promise);
+    const bAtom = atom(b.promise);
+    const cAtom = atom(true);
+    const allAtom = loadableAll([aAtom, bAtom, cAtom]);
+
+    expect(store.get(allAtom)).toEqual({ state: 'loading' });
+    a.resolve(1);
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(allAtom)).toEqual({ state: 'loading' });
+    b.resolve('two');
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(allAtom)).toEqual({ state: 'hasData', data: [1, 'two', true] });
+
+    expectTypeOf(allAtom).toEqualTypeOf<Atom<Loadable<[number, string, boolean]>>>();
+  });
+
+  it('combines a record of atoms', async () => {
+    const userAtom = atom(Promise.resolve({ name: 'John' }));
+    const countAtom = atom(12);
+    const allAtom = loadableAll({ user: userAtom, count: countAtom });
+
+    expect(store.get(allAtom)).toEqual({ state: 'loading' });
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(allAtom)).toEqual({
+      state: 'hasData',
+      data: { user: { name: 'John' }, count: 12 },
+    });
+
+    expectTypeOf(allAtom).toEqualTypeOf<
+      Atom<Loadable<{ user: { name: string }; count: number }>>
+    >();
+  });
+
+  it('fails with the first error, even if others are loading', async () => {
+    const error = new Error('Oops');
+    const pendingAtom = atom(new Promise<number>(() => {}));
+    const failingAtom = atom(Promise.reject<number>(error));
+    const allAtom = loadableAll([pendingAtom, failingAtom]);
+
+    expect(store.get(allAtom)).toEqual({ state: 'loading' });
+    await new Promise((r) => setTimeout(r)); // wait for a tick
+    expect(store.get(allAtom)).toEqual({ state: 'hasError', error });
+  });
+
+  it('jump-starts every atom', () => {
+    const aAtom = atom(() => new Promise<number>(() => {}));
+    const bRead = deferred<void>();
+    const bAtom = atom(() => {
+      bRead.resolve();
+      return new Promise<number>(() => {});
+    });
+
+    store.get(loadableAll([aAtom, bAtom]));
+    return bRead.promise;
+  });
+
+  it('returns the same atom for the same atoms', () => {
+    const aAtom = atom(1);
+    const bAtom = atom(2);
+
+    expect(loadableAll([aAtom, bAtom])).toBe(loadableAll([aAtom, bAtom]));
+    expect(loadableAll([aAtom, bAtom])).not.toBe(loadableAll([bAtom, aAtom]));
+    expect(loadableAll({ a: aAtom, b: bAtom })).toBe(loadableAll({ a: aAtom, b: bAtom }));
+    expect(loadableAll({ a: aAtom, b: bAtom })).not.toBe(loadableAll({ a: aAtom, c: bAtom }));
+  });
+});
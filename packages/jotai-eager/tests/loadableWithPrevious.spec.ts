@@ -0,0 +1,63 @@
+import { loadableWithPrevious } from 'jotai-eager';
+import { atom, createStore } from 'jotai/vanilla';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+describe('loadableWithPrevious', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('has no previous data on the first load', async () => {
+    const asyncAtom = atom(Promise.resolve('first'));
+    const loadableAtom = loadableWithPrevious(asyncAtom);
+
+    expect(store.get(loadableAtom)).toEqual({ state: 'loading' });
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(loadableAtom)).toEqual({ state: 'hasData', data: 'first' });
+  });
+
+  it('keeps the previous data while loading', async () => {
+    const asyncAtom = atom(Promise.resolve('first'));
+    const loadableAtom = loadableWithPrevious(asyncAtom);
+
+    store.get(loadableAtom);
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(loadableAtom)).toEqual({ state: 'hasData', data: 'first' });
+
+    store.set(asyncAtom, Promise.resolve('second'));
+    expect(store.get(loadableAtom)).toEqual({ state: 'loading', previous: 'first' });
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(loadableAtom)).toEqual({ state: 'hasData', data: 'second' });
+  });
+
+  it('keeps the previous data on error', async () => {
+    const asyncAtom = atom(Promise.resolve('first'));
+    const loadableAtom = loadableWithPrevious(asyncAtom);
+
+    store.get(loadableAtom);
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(loadableAtom)).toEqual({ state: 'hasData', data: 'first' });
+
+    const error = new Error('Oops');
+    store.set(asyncAtom, Promise.reject(error));
+    expect(store.get(loadableAtom)).toEqual({ state: 'loading', previous: 'first' });
+    await new Promise((r) => setTimeout(r)); // wait for a tick
+    expect(store.get(loadableAtom)).toEqual({ state: 'hasError', error, previous: 'first' });
+
+    // The last good data survives failures
+    store.set(asyncAtom, Promise.resolve('second'));
+    expect(store.get(loadableAtom)).toEqual({ state: 'loading', previous: 'first' });
+  });
+
+  it('has no previous data on a failed first load', async () => {
+    const error = new Error('Oops');
+    const asyncAtom = atom(Promise.reject(error));
+    const loadableAtom = loadableWithPrevious(asyncAtom);
+
+    store.get(loadableAtom);
+    await new Promise((r) => setTimeout(r)); // wait for a tick
+    expect(store.get(loadableAtom)).toEqual({ state: 'hasError', error });
+  });
+});
@@ -0,0 +1,106 @@
+import { eagerAtom, eagerGenAtom } from 'jotai-eager';
+import { type Atom, atom, createStore } from 'jotai/vanilla';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { deferred } from './mockUtils.ts';
+
+const DEPENDENCY_COUNT = 10;
+
+function createDependencies() {
+  const tasks = Array.from({ length: DEPENDENCY_COUNT }, () => deferred<number>());
+  const atoms = tasks.map((task) => atom(task.promise)) as Atom<Promise<number>>[];
+
+  return {
+    atoms,
+    async resolveInOrder() {
+      for (const [idx, task] of tasks.entries()) {
+        task.resolve(idx);
+        await new Promise((r) => setTimeout(r));
+      }
+    },
+  };
+}
+
+// The sum of 0, 1, ..., DEPENDENCY_COUNT - 1
+const EXPECTED_SUM = (DEPENDENCY_COUNT * (DEPENDENCY_COUNT - 1)) / 2;
+
+describe('read invocations', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('eagerAtom: sequential reads run `read` once per pending dependency', async () => {
+    const { atoms, resolveInOrder } = createDependencies();
+    let invocations = 0;
+
+    const sumAtom = eagerAtom((get) => {
+      invocations++;
+      return atoms.reduce((acc, a) => acc + get(a), 0);
+    });
+
+    const sum = store.get(sumAtom);
+    await resolveInOrder();
+
+    // Dependencies are discovered one by one, which `get.all()` and `eagerGenAtom` avoid
+    await expect(sum).resolves.toEqual(EXPECTED_SUM);
+    expect(invocations).toEqual(DEPENDENCY_COUNT + 1);
+  });
+
+  it('eagerAtom: get.all() runs `read` twice, no matter the amount of dependencies', async () => {
+    const { atoms, resolveInOrder } = createDependencies();
+    let invocations = 0;
+
+    const sumAtom = eagerAtom((get) => {
+      invocations++;
+      return get.all(atoms).reduce((acc, value) => acc + value, 0);
+    });
+
+    const sum = store.get(sumAtom);
+    await resolveInOrder();
+
+    await expect(sum).resolves.toEqual(EXPECTED_SUM);
+    expect(invocations).toEqual(2);
+  });
+
+  it('eagerAtom: get.awaitAll() runs `read` twice, no matter the amount of promises', async () => {
+    const { atoms, resolveInOrder } = createDependencies();
+    const promises = atoms.map((a) => store.get(a));
+    let invocations = 0;
+
+    const sumAtom = eagerAtom((get) => {
+      invocations++;
+      return get.awaitAll(promises).reduce((acc, value) => acc + value, 0);
+    });
+
+    const sum = store.get(sumAtom);
+    await resolveInOrder();
+
+    await expect(sum).resolves.toEqual(EXPECTED_SUM);
+    expect(invocations).toEqual(2);
+  });
+
+  it('eagerGenAtom: sequential reads run `read` once, resuming where it left off', async () => {
+    const { atoms, resolveInOrder } = createDependencies();
+    let invocations = 0;
+    let expensiveSteps = 0;
+
+    const sumAtom = eagerGenAtom(function* (get) {
+      invocations++;
+      let acc = 0;
+      for (const a of atoms) {
+        expensiveSteps++;
+        acc += yield* get(a);
+      }
+      return acc;
+    });
+
+    const sum = store.get(sumAtom);
+    await resolveInOrder();
+
+    await expect(sum).resolves.toEqual(EXPECTED_SUM);
+    expect(invocations).toEqual(1);
+    expect(expensiveSteps).toEqual(DEPENDENCY_COUNT);
+  });
+});
@@ -1,4 +1,4 @@
-import { soonAll } from 'jotai-eager';
+import { soonAll, soonCatch } from 'jotai-eager';
 import { atom, createStore } from 'jotai/vanilla';
 import { describe, expect, expectTypeOf, it } from 'vitest';
 
@@ -56,6 +56,15 @@ describe('soonAll', () => {
     await expect(result).rejects.toEqual({ error: 'test' });
   });
 
+  it('records the rejection of elements, so that it is known next time', async () => {
+    const failing = Promise.reject<number>(new Error('Oops'));
+
+    await expect(soonAll([1, failing])).rejects.toThrow('Oops');
+
+    // Known to be rejected, so it can be recovered from synchronously
+    expect(soonCatch(failing, () => 0)).toEqual(0);
+  });
+
   it('handles an array as input', () => {
     const array = [1, 2, 3].map((x) => x * 2);
     const result = soonAll(array);
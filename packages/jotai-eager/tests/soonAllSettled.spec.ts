@@ -0,0 +1,55 @@
+import { soon, soonAllSettled, soonCatch } from 'jotai-eager';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+type SettledNumber =
+  | { status: 'fulfilled'; value: number }
+  | { status: 'rejected'; reason: unknown };
+
+const fail = (_input: number): number => {
+  throw new Error('Oops');
+};
+
+describe('soonAllSettled', () => {
+  it('returns the outcomes synchronously if all elements are settled', () => {
+    // `soon` turns sync throws into a rejected promise, known to be rejected
+    const result = soonAllSettled([1, soon(2, fail)]);
+
+    expect(result).toEqual([
+      { status: 'fulfilled', value: 1 },
+      { status: 'rejected', reason: new Error('Oops') },
+    ]);
+    expectTypeOf(result).toEqualTypeOf<
+      [SettledNumber, SettledNumber] | Promise<[SettledNumber, SettledNumber]>
+    >();
+  });
+
+  it('returns a promise of the outcomes if any element is pending', async () => {
+    const result = soonAllSettled([Promise.resolve(1), Promise.reject(new Error('Oops'))]);
+
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).resolves.toEqual([
+      { status: 'fulfilled', value: 1 },
+      { status: 'rejected', reason: new Error('Oops') },
+    ]);
+  });
+
+  it('records the outcome of every element, so that it is known next time', async () => {
+    const one = Promise.resolve(1);
+    const failing = Promise.reject<number>(new Error('Oops'));
+
+    await soonAllSettled([one, failing]);
+
+    expect(soonAllSettled([one, failing])).toEqual([
+      { status: 'fulfilled', value: 1 },
+      { status: 'rejected', reason: new Error('Oops') },
+    ]);
+    expect(soonCatch(failing, () => 0)).toEqual(0);
+  });
+
+  it('handles an empty tuple as input', () => {
+    const result = soonAllSettled([]);
+
+    expect(result).toEqual([]);
+    expectTypeOf(result).toEqualTypeOf<[] | Promise<[]>>();
+  });
+});
@@ -0,0 +1,51 @@
+import { soon, soonAny } from 'jotai-eager';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+const fail = (_input: number): number => {
+  throw new Error('Oops');
+};
+
+describe('soonAny', () => {
+  it('returns the first known value synchronously, skipping rejections', () => {
+    const result = soonAny([soon(1, fail), new Promise<string>(() => {}), 2]);
+
+    expect(result).toEqual(2);
+    expectTypeOf(result).toEqualTypeOf<string | number | Promise<string | number>>();
+  });
+
+  it('rejects with all reasons if all elements are known to be rejected', async () => {
+    const result = soonAny([soon(1, fail), soon(2, fail)]);
+
+    await expect(result).rejects.toMatchObject({
+      message: 'All promises were rejected',
+      errors: [new Error('Oops'), new Error('Oops')],
+    });
+  });
+
+  it('returns a promise of the first element to fulfill if any are pending', async () => {
+    const failing = Promise.reject<number>(new Error('Oops'));
+    const one = new Promise<number>((resolve) => setTimeout(() => resolve(1), 10));
+
+    const result = soonAny([failing, one]);
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).resolves.toEqual(1);
+
+    // Both are now known
+    expect(soonAny([failing, one])).toEqual(1);
+  });
+
+  it('rejects with all reasons once every pending element is rejected', async () => {
+    const result = soonAny([
+      Promise.reject(new Error('First')),
+      Promise.reject(new Error('Second')),
+    ]);
+
+    await expect(result).rejects.toMatchObject({
+      errors: [new Error('First'), new Error('Second')],
+    });
+  });
+
+  it('rejects an empty array, just like Promise.any', async () => {
+    await expect(soonAny([])).rejects.toThrow('All promises were rejected');
+  });
+});
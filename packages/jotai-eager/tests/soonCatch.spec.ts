@@ -0,0 +1,47 @@
+import { soon, soonCatch } from 'jotai-eager';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+const fail = (_input: number): number => {
+  throw new Error('Oops');
+};
+
+describe('soonCatch', () => {
+  it('passes known values through', () => {
+    const result = soonCatch(123 as Promise<number> | number, () => 'fallback' as const);
+
+    expect(result).toEqual(123);
+    expectTypeOf(result).toEqualTypeOf<number | 'fallback' | Promise<number | 'fallback'>>();
+  });
+
+  it('recovers synchronously from a known rejection', () => {
+    // `soon` turns sync throws into a rejected promise, known to be rejected
+    const failed = soon(123, fail);
+
+    expect(soonCatch(failed, () => 0)).toEqual(0);
+  });
+
+  it('recovers asynchronously from a pending rejection', async () => {
+    const result = soonCatch(Promise.reject(new Error('Oops')), (reason) => {
+      return (reason as Error).message;
+    });
+
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).resolves.toEqual('Oops');
+  });
+
+  it('returns a rejected promise if the recovery throws', async () => {
+    const result = soonCatch(soon(123, fail), () => {
+      throw new Error('Oops again');
+    });
+
+    await expect(result).rejects.toThrow('Oops again');
+  });
+
+  it('can be used data-last', async () => {
+    const orZero = soonCatch<Promise<number> | number, number>(() => 0);
+
+    expect(orZero(12)).toEqual(12);
+    expect(orZero(soon(12, fail))).toEqual(0);
+    await expect(orZero(Promise.resolve(12))).resolves.toEqual(12);
+  });
+});
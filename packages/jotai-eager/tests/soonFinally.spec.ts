@@ -0,0 +1,51 @@
+import { soon, soonFinally } from 'jotai-eager';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+
+const fail = (_input: number): number => {
+  throw new Error('Oops');
+};
+
+describe('soonFinally', () => {
+  it('runs synchronously for known values', () => {
+    const onSettled = vi.fn();
+    const result = soonFinally(123 as Promise<number> | number, onSettled);
+
+    expect(result).toEqual(123);
+    expect(onSettled).toHaveBeenCalledTimes(1);
+    expectTypeOf(result).toEqualTypeOf<number | Promise<number>>();
+  });
+
+  it('runs synchronously for known rejections, passing them through', async () => {
+    const onSettled = vi.fn();
+    const result = soonFinally(soon(123, fail), onSettled);
+
+    expect(onSettled).toHaveBeenCalledTimes(1);
+    await expect(result).rejects.toThrow('Oops');
+  });
+
+  it('runs once pending data settles', async () => {
+    const onSettled = vi.fn();
+    const result = soonFinally(Promise.resolve(123), onSettled);
+
+    expect(onSettled).not.toHaveBeenCalled();
+    await expect(result).resolves.toEqual(123);
+    expect(onSettled).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns a rejected promise if `onSettled` throws', async () => {
+    const result = soonFinally(123, () => {
+      throw new Error('Oops');
+    });
+
+    await expect(result).rejects.toThrow('Oops');
+  });
+
+  it('can be used data-last', async () => {
+    const onSettled = vi.fn();
+    const tracked = soonFinally<Promise<number> | number>(onSettled);
+
+    expect(tracked(12)).toEqual(12);
+    await expect(tracked(Promise.resolve(12))).resolves.toEqual(12);
+    expect(onSettled).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,62 @@
+import { soonPipe } from 'jotai-eager';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+describe('soonPipe', () => {
+  it('runs every step synchronously for known values', () => {
+    const result = soonPipe(
+      2 as Promise<number> | number,
+      (value) => value * 10,
+      (value) => `${value}`,
+      (value) => value.length,
+    );
+
+    expect(result).toEqual(2);
+    expectTypeOf(result).toEqualTypeOf<number | Promise<number>>();
+  });
+
+  it('awaits pending steps, and runs the rest once they settle', async () => {
+    const steps: string[] = [];
+    const result = soonPipe(
+      1,
+      (value) => {
+        steps.push('first');
+        return Promise.resolve(value + 1);
+      },
+      (value) => {
+        steps.push('second');
+        return value * 2;
+      },
+    );
+
+    expect(steps).toEqual(['first']);
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).resolves.toEqual(4);
+    expect(steps).toEqual(['first', 'second']);
+  });
+
+  it('registers intermediate promises, so awaited pipelines become synchronous', async () => {
+    const user = Promise.resolve({ name: 'John' });
+
+    const first = soonPipe(user, (value) => value.name);
+    await first;
+
+    const second = soonPipe(
+      first,
+      (name) => name.toUpperCase(),
+      (name) => `Hello, ${name}!`,
+    );
+    expect(second).toEqual('Hello, JOHN!');
+  });
+
+  it('skips the remaining steps once one of them throws', async () => {
+    const result = soonPipe(
+      Promise.resolve(1),
+      (): number => {
+        throw new Error('Oops');
+      },
+      (value) => value + 1,
+    );
+
+    await expect(result).rejects.toThrow('Oops');
+  });
+});
@@ -0,0 +1,72 @@
+import { soonProps } from 'jotai-eager';
+import { atom, createStore } from 'jotai/vanilla';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+describe('soonProps', () => {
+  it('returns the same entries if all of them are concrete values', () => {
+    const result = soonProps({ a: 1, b: 'two' });
+    expect(result).toEqual({ a: 1, b: 'two' });
+
+    expectTypeOf(result).toEqualTypeOf<
+      { a: number; b: string } | Promise<{ a: number; b: string }>
+    >();
+  });
+
+  it('keeps precise per-key typing for interfaces', () => {
+    interface Deps {
+      user: Promise<string>;
+      theme: string;
+    }
+    const deps: Deps = { user: Promise.resolve('John'), theme: 'dark' };
+
+    expectTypeOf(soonProps(deps)).toEqualTypeOf<
+      { user: string; theme: string } | Promise<{ user: string; theme: string }>
+    >();
+  });
+
+  it('returns the awaited entries if all of them are known', async () => {
+    const store = createStore();
+    const resolvedAtom = atom(Promise.resolve(2));
+    const promise = store.get(resolvedAtom);
+
+    const result1 = soonProps({ a: 1, b: promise });
+    await expect(result1).resolves.toEqual({ a: 1, b: 2 });
+
+    const result2 = soonProps({ a: 1, b: promise });
+    expect(result2).toEqual({ a: 1, b: 2 });
+
+    expectTypeOf(result2).toEqualTypeOf<
+      { a: number; b: number } | Promise<{ a: number; b: number }>
+    >();
+  });
+
+  it('records the fulfilled entries, even if they did not come from an atom', async () => {
+    const user = Promise.resolve({ name: 'John' });
+
+    await soonProps({ user, theme: 'dark' });
+
+    expect(soonProps({ user })).toEqual({ user: { name: 'John' } });
+  });
+
+  it('returns a rejected promise if any of the entries are rejected promises', async () => {
+    // eslint-disable-next-line prefer-promise-reject-errors
+    const result = soonProps({ a: 1, b: Promise.reject<number>({ error: 'test' }) });
+
+    await expect(result).rejects.toEqual({ error: 'test' });
+  });
+
+  it('keeps symbol keys, but not non-enumerable ones', async () => {
+    const key = Symbol('key');
+    const values = { a: 1, [key]: Promise.resolve('symbol') };
+    Object.defineProperty(values, 'hidden', { value: 2, enumerable: false });
+
+    const result = await soonProps(values);
+    expect(result).toEqual({ a: 1, [key]: 'symbol' });
+    expect(result[key]).toBe('symbol');
+    expect(Object.getOwnPropertyNames(result)).toEqual(['a']);
+  });
+
+  it('handles an empty record as input', () => {
+    expect(soonProps({})).toEqual({});
+  });
+});
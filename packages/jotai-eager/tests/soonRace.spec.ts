@@ -0,0 +1,44 @@
+import { soon, soonRace } from 'jotai-eager';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+const fail = (_input: number): number => {
+  throw new Error('Oops');
+};
+
+describe('soonRace', () => {
+  it('returns the first known value synchronously', () => {
+    const result = soonRace([new Promise<string>(() => {}), 2]);
+
+    expect(result).toEqual(2);
+    expectTypeOf(result).toEqualTypeOf<string | number | Promise<string | number>>();
+  });
+
+  it('picks the first settled element, in order', async () => {
+    const failed = soon(1, fail);
+
+    await expect(soonRace([failed, 2])).rejects.toThrow('Oops');
+    expect(soonRace([2, failed])).toEqual(2);
+  });
+
+  it('returns a promise of the first element to settle if all of them are pending', async () => {
+    const slow = new Promise<number>((resolve) => setTimeout(() => resolve(1), 50));
+    const fast = Promise.resolve(2);
+
+    const result = soonRace([slow, fast]);
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).resolves.toEqual(2);
+
+    // The fast one is now known to be fulfilled
+    expect(soonRace([slow, fast])).toEqual(2);
+  });
+
+  it('records the rejection of elements, so that it is known next time', async () => {
+    const failing = Promise.reject<number>(new Error('Oops'));
+
+    await expect(soonRace([failing])).rejects.toThrow('Oops');
+
+    const result = soonRace([failing, 2]);
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).rejects.toThrow('Oops');
+  });
+});
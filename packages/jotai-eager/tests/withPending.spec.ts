@@ -1,6 +1,8 @@
+import type { Atom, SetStateAction, WritableAtom } from 'jotai/vanilla';
 import { atom, createStore } from 'jotai/vanilla';
-import { beforeEach, describe, expect, it } from 'vitest';
-import { withPending } from 'jotai-eager';
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { withPending, withPendingState } from 'jotai-eager';
+import { deferred } from './mockUtils.ts';
 
 describe('withPending', () => {
   let store: ReturnType<typeof createStore>;
@@ -79,6 +81,65 @@ describe('withPending', () => {
     expect(store.get(fooOrPendingAtom)).toEqual(123);
   });
 
+  it('rethrows the rejection reason by default', async () => {
+    const fooAtom = atom(Promise.reject<number>(new Error('Oops')));
+    const fooOrPendingAtom = withPending(fooAtom);
+
+    expect(store.get(fooOrPendingAtom)).toEqual(undefined);
+    await new Promise((r) => setTimeout(r)); // wait for a tick
+    expect(() => store.get(fooOrPendingAtom)).toThrow('Oops');
+  });
+
+  it('falls back to the last good value on error', async () => {
+    const fooAtom = atom(Promise.resolve(123));
+    const errors: unknown[] = [];
+    const fooOrPendingAtom = withPending(fooAtom, ({ prev }) => prev ?? 0, {
+      onError: ({ prev, error }) => {
+        errors.push(error);
+        return prev ?? -1;
+      },
+    });
+
+    expect(store.get(fooOrPendingAtom)).toEqual(0);
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+
+    store.set(fooAtom, Promise.reject(new Error('Oops')));
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+    await new Promise((r) => setTimeout(r)); // wait for a tick
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+    expect(errors).toEqual([new Error('Oops')]);
+
+    // The last good value survives failures
+    store.set(fooAtom, Promise.reject(new Error('Oops again')));
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+    await new Promise((r) => setTimeout(r)); // wait for a tick
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+
+    store.set(fooAtom, Promise.resolve(321));
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(fooOrPendingAtom)).toEqual(321);
+
+    expectTypeOf(fooOrPendingAtom).toEqualTypeOf<
+      WritableAtom<number, [SetStateAction<Promise<number>>], void>
+    >();
+  });
+
+  it('rescues synchronous errors', () => {
+    const fooAtom = atom((): number => {
+      throw new Error('Oops');
+    });
+    const fooOrPendingAtom = withPending(fooAtom, () => 'Loading...' as const, {
+      onError: ({ error }) => ({ error }),
+    });
+
+    expect(store.get(fooOrPendingAtom)).toEqual({ error: new Error('Oops') });
+    expectTypeOf(fooOrPendingAtom).toEqualTypeOf<
+      Atom<number | 'Loading...' | { error: unknown }>
+    >();
+  });
+
   it('should unwrap a sync atom which is noop', async () => {
     const countAtom = atom(1);
     const syncAtom = withPending(countAtom);
@@ -143,3 +204,178 @@ describe('withPending', () => {
     expect(results).toEqual(['effect undefined', 'effect value']);
   });
 });
+
+describe('withPending timing', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stays on the previous value for `delayMs`', async () => {
+    const fooAtom = atom(Promise.resolve(123));
+    const fooOrPendingAtom = withPending(fooAtom, () => 'Loading...' as const, { delayMs: 100 });
+    const unsub = store.sub(fooOrPendingAtom, () => {});
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+
+    // Fast response
+    store.set(fooAtom, Promise.resolve(321));
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.get(fooOrPendingAtom)).toEqual(321);
+
+    // Slow response
+    const slow = deferred<number>();
+    store.set(fooAtom, slow.promise);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(store.get(fooOrPendingAtom)).toEqual(321);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(store.get(fooOrPendingAtom)).toEqual('Loading...');
+
+    slow.resolve(456);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.get(fooOrPendingAtom)).toEqual(456);
+    unsub();
+  });
+
+  it('keeps the fallback for at least `minDurationMs`', async () => {
+    const foo = deferred<number>();
+    const fooAtom = atom(foo.promise);
+    const fooOrPendingAtom = withPending(fooAtom, () => 'Loading...' as const, {
+      minDurationMs: 500,
+    });
+    const unsub = store.sub(fooOrPendingAtom, () => {});
+
+    expect(store.get(fooOrPendingAtom)).toEqual('Loading...');
+    await vi.advanceTimersByTimeAsync(100);
+    foo.resolve(123);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.get(fooOrPendingAtom)).toEqual('Loading...');
+
+    await vi.advanceTimersByTimeAsync(399);
+    expect(store.get(fooOrPendingAtom)).toEqual('Loading...');
+    await vi.advanceTimersByTimeAsync(1);
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+    unsub();
+  });
+
+  it('keeps suspending for `delayMs` when there is nothing to stay on', async () => {
+    const foo = deferred<number>();
+    const fooAtom = atom(foo.promise);
+    const fooOrPendingAtom = withPending(fooAtom, () => 'Loading...' as const, {
+      delayMs: 100,
+      minDurationMs: 300,
+    });
+    const values: unknown[] = [];
+    const unsub = store.sub(fooOrPendingAtom, () => values.push(store.get(fooOrPendingAtom)));
+
+    expect(store.get(fooOrPendingAtom)).toBe(foo.promise);
+    expectTypeOf(store.get(fooOrPendingAtom)).toEqualTypeOf<
+      number | 'Loading...' | Promise<number>
+    >();
+
+    // Fast first response
+    await vi.advanceTimersByTimeAsync(20);
+    foo.resolve(123);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(values).not.toContain('Loading...');
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+    unsub();
+  });
+
+  it('counts `minDurationMs` from when the fallback is shown', async () => {
+    const foo = deferred<number>();
+    const fooAtom = atom(foo.promise);
+    const fooOrPendingAtom = withPending(fooAtom, () => 'Loading...' as const, {
+      delayMs: 100,
+      minDurationMs: 500,
+    });
+    const unsub = store.sub(fooOrPendingAtom, () => {});
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(store.get(fooOrPendingAtom)).toEqual('Loading...');
+    await vi.advanceTimersByTimeAsync(50);
+    foo.resolve(123);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.get(fooOrPendingAtom)).toEqual('Loading...');
+
+    await vi.advanceTimersByTimeAsync(450);
+    expect(store.get(fooOrPendingAtom)).toEqual(123);
+    unsub();
+  });
+});
+
+describe('withPendingState', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('is never pending for a sync atom', () => {
+    const countAtom = atom(1);
+    const countStateAtom = withPendingState(countAtom);
+
+    expect(store.get(countStateAtom)).toEqual({
+      value: 1,
+      isPending: false,
+      isStale: false,
+      pending: undefined,
+    });
+  });
+
+  it('marks the previous value as stale while pending', async () => {
+    const fooAtom = atom(Promise.resolve(123));
+    const fooStateAtom = withPendingState(fooAtom);
+
+    expect(store.get(fooStateAtom)).toEqual({
+      value: undefined,
+      isPending: true,
+      isStale: false,
+      pending: store.get(fooAtom),
+    });
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(fooStateAtom)).toEqual({
+      value: 123,
+      isPending: false,
+      isStale: false,
+      pending: undefined,
+    });
+
+    // New Promise value
+    const next = Promise.resolve(321);
+    store.set(fooStateAtom, next);
+    expect(store.get(fooStateAtom)).toEqual({
+      value: 123,
+      isPending: true,
+      isStale: true,
+      pending: next,
+    });
+    await Promise.resolve(); // wait micro-tick
+    expect(store.get(fooStateAtom)).toEqual({
+      value: 321,
+      isPending: false,
+      isStale: false,
+      pending: undefined,
+    });
+  });
+
+  it('rethrows the rejection reason', async () => {
+    const fooAtom = atom(Promise.reject<number>(new Error('Oops')));
+    const fooStateAtom = withPendingState(fooAtom);
+
+    expect(store.get(fooStateAtom).isPending).toBe(true);
+    await new Promise((r) => setTimeout(r)); // wait for a tick
+    expect(() => store.get(fooStateAtom)).toThrow('Oops');
+  });
+});